@@ -0,0 +1,554 @@
+/**
+ * DetailScreen Component
+ *
+ * Shows everything about a single Pokemon, opened from the liked collection.
+ *
+ * FEATURES:
+ * - Fetches the full Pokemon by ID from PokeAPI
+ * - Official artwork with type-colored accents
+ * - Base stats with bars
+ * - Height and weight in meters and kilograms
+ * - All abilities, with hidden abilities marked
+ * - Pokedex flavor text from the species endpoint, shared by all forms;
+ *   if only that request fails, everything else is still shown
+ * - "Unlike" action to remove the Pokemon from the collection
+ * - Dark mode support
+ *
+ * NAVIGATION:
+ * - Shown by LikedScreen as a full-screen modal over the collection
+ * - Back button (or Android back) closes it
+ * - Closes after unliking
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  TouchableOpacity,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { usePokemon } from '../context/PokemonContext';
+import { lightTheme, darkTheme } from '../context/ThemeContext';
+import { Pokemon } from '../types/pokemon';
+import { getOfficialArtworkUrl, formatAbilityName } from '../services/pokeApi';
+import { getTypeColor, getTypeDarkColor } from '../utils/typeColors';
+import Header from '../components/Header';
+import TypeBadge from '../components/TypeBadge';
+import { fetchPokemon, fetchSpecies } from './pokeApiClient';
+import { formatDisplayName } from './pokemonNames';
+
+// Highest possible base stat, used to scale the stat bars
+const MAX_BASE_STAT = 255;
+
+// Display labels for each base stat
+const STAT_LABELS: Record<string, string> = {
+  hp: 'HP',
+  attack: 'Attack',
+  defense: 'Defense',
+  'special-attack': 'Sp. Atk',
+  'special-defense': 'Sp. Def',
+  speed: 'Speed',
+};
+
+type DetailScreenProps = {
+  id: number;           // Pokemon to show
+  onClose: () => void;  // Closes the modal the screen is shown in
+};
+
+/**
+ * Base stat entry as returned by the PokeAPI
+ * Not part of the shared Pokemon type since only this screen needs it
+ */
+type PokemonStat = {
+  base_stat: number;
+  stat: {
+    name: string;  // e.g., "hp", "special-attack"
+  };
+};
+
+// Full Pokemon data including base stats
+type PokemonDetails = Pokemon & {
+  stats: PokemonStat[];
+};
+
+/**
+ * Checks that a value is a base stat entry
+ *
+ * @param value - Entry of the stats array in a PokeAPI response
+ */
+const isPokemonStat = (value: unknown): value is PokemonStat => {
+  const stat = value as Partial<PokemonStat> | null;
+  return typeof stat?.base_stat === 'number' && typeof stat.stat?.name === 'string';
+};
+
+/**
+ * Adds the base stats in a PokeAPI response to the Pokemon
+ * The shared Pokemon type doesn't declare stats, so they are checked here;
+ * a response without usable stats gets an empty list
+ *
+ * @param pokemon - Pokemon as returned by PokeAPI
+ * @returns PokemonDetails - The Pokemon with its valid base stats
+ */
+const toPokemonDetails = (pokemon: Pokemon): PokemonDetails => {
+  const stats = 'stats' in pokemon && Array.isArray(pokemon.stats) ? pokemon.stats : [];
+  return { ...pokemon, stats: stats.filter(isPokemonStat) };
+};
+
+/**
+ * Finds the species of a Pokemon in a PokeAPI response
+ * Forms (e.g. "rattata-alola") have no species of their own, so their
+ * flavor text comes from the species they belong to
+ *
+ * @param pokemon - Pokemon as returned by PokeAPI
+ * @returns string | number - Species name, or the Pokemon ID if missing
+ */
+const getSpeciesKey = (pokemon: Pokemon): string | number => {
+  const species = 'species' in pokemon ? (pokemon.species as { name?: unknown } | null) : null;
+  return typeof species?.name === 'string' ? species.name : pokemon.id;
+};
+
+/**
+ * Fetches the English Pokedex flavor text for a Pokemon species
+ *
+ * @param species - Species name or ID
+ * @param signal - Cancels the request
+ * @returns Promise<string | null> - Flavor text, or null if none in English
+ * @throws PokeApiError if the request fails
+ */
+const fetchFlavorText = async (
+  species: string | number,
+  signal: AbortSignal,
+): Promise<string | null> => {
+  const data = await fetchSpecies(species, signal);
+  const entries = Array.isArray(data.flavor_text_entries) ? data.flavor_text_entries : [];
+  const entry = entries.find(e => e?.language?.name === 'en');
+
+  // Game text uses form feeds and hard line breaks; collapse them to spaces
+  return typeof entry?.flavor_text === 'string'
+    ? entry.flavor_text.replace(/[\f\n\r]+/g, ' ')
+    : null;
+};
+
+/**
+ * DetailScreen Component
+ *
+ * @param id - ID of the Pokemon to show
+ * @param onClose - Closes the modal the screen is shown in
+ */
+const DetailScreen: React.FC<DetailScreenProps> = ({ id, onClose }) => {
+  // Access global state from PokemonContext
+  const { isDarkMode, toggleDarkMode, isLiked, removeLikedPokemon } = usePokemon();
+
+  // Select theme based on dark mode setting
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  // Full Pokemon data
+  const [pokemon, setPokemon] = useState<PokemonDetails | null>(null);
+  // Pokedex entry text
+  const [flavorText, setFlavorText] = useState<string | null>(null);
+  // Loading and error states
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Aborted when a new load starts or the screen closes
+  const abortRef = useRef(new AbortController());
+
+  /**
+   * Fetches the Pokemon, then its species flavor text
+   * The flavor text is optional: if it fails, the rest is still shown
+   */
+  const loadDetails = useCallback(async () => {
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    const signal = abortRef.current.signal;
+    setIsLoading(true);
+    setError(null);
+    setFlavorText(null);
+
+    let details: Pokemon;
+    try {
+      details = await fetchPokemon(id, signal);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Error fetching Pokemon details:', err);
+      setError('Failed to load Pokémon details. Please try again.');
+      setIsLoading(false);
+      return;
+    }
+    if (signal.aborted) return;
+    setPokemon(toPokemonDetails(details));
+    setIsLoading(false);
+
+    try {
+      const text = await fetchFlavorText(getSpeciesKey(details), signal);
+      if (!signal.aborted) {
+        setFlavorText(text);
+      }
+    } catch (err) {
+      if (!signal.aborted) {
+        console.error('Error fetching flavor text:', err);
+      }
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadDetails();
+  }, [loadDetails]);
+
+  /**
+   * Stop in-flight fetches when the screen closes
+   */
+  useEffect(() => {
+    const controllerRef = abortRef;
+    return () => controllerRef.current.abort();
+  }, []);
+
+  /**
+   * Removes the Pokemon from the liked collection and closes the details
+   */
+  const handleUnlike = () => {
+    removeLikedPokemon(id);
+    onClose();
+  };
+
+  /**
+   * Renders the loaded Pokemon details
+   *
+   * @param details - Full Pokemon data
+   */
+  const renderDetails = (details: PokemonDetails) => {
+    // Get primary type for color theming
+    const primaryType = details.types[0]?.type.name || 'normal';
+    const typeColor = getTypeColor(primaryType);
+    const typeDarkColor = getTypeDarkColor(primaryType);
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+          {/* Type-based accent strip at top of card */}
+          <View style={[styles.typeStrip, { backgroundColor: typeColor }]} />
+
+          {/* Pokemon ID Badge */}
+          <View style={[styles.idBadge, { backgroundColor: typeDarkColor }]}>
+            <Text style={styles.idText}>#{details.id.toString().padStart(3, '0')}</Text>
+          </View>
+
+          {/* Pokemon Image - Official artwork from PokeAPI */}
+          <Image
+            source={{ uri: getOfficialArtworkUrl(details.id) }}
+            style={styles.image}
+            resizeMode="contain"
+          />
+
+          <Text style={[styles.name, { color: theme.text }]}>
+            {formatDisplayName(details.name)}
+          </Text>
+
+          {/* Type Badges */}
+          <View style={styles.badgeRow}>
+            {details.types.map((typeInfo, index) => (
+              <TypeBadge key={index} type={typeInfo.type.name} />
+            ))}
+          </View>
+
+          {/* Pokedex entry */}
+          {flavorText && (
+            <Text style={[styles.flavorText, { color: theme.textSecondary }]}>
+              {flavorText}
+            </Text>
+          )}
+
+          {/* Height and Weight - API returns decimeters and hectograms */}
+          <View style={styles.measurements}>
+            <View style={styles.measurement}>
+              <Text style={[styles.measurementValue, { color: theme.text }]}>
+                {(details.height / 10).toFixed(1)} m
+              </Text>
+              <Text style={[styles.measurementLabel, { color: theme.textSecondary }]}>Height</Text>
+            </View>
+            <View style={styles.measurement}>
+              <Text style={[styles.measurementValue, { color: theme.text }]}>
+                {(details.weight / 10).toFixed(1)} kg
+              </Text>
+              <Text style={[styles.measurementLabel, { color: theme.textSecondary }]}>Weight</Text>
+            </View>
+          </View>
+
+          {/* Base Stats */}
+          {details.stats.length > 0 && (
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Base Stats</Text>
+          )}
+          {details.stats.map(statInfo => (
+            <View key={statInfo.stat.name} style={styles.statRow}>
+              <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+                {STAT_LABELS[statInfo.stat.name] ?? formatAbilityName(statInfo.stat.name)}
+              </Text>
+              <Text style={[styles.statValue, { color: theme.text }]}>{statInfo.base_stat}</Text>
+              <View style={[styles.statTrack, { backgroundColor: theme.cardBorder }]}>
+                <View
+                  style={[
+                    styles.statBar,
+                    {
+                      backgroundColor: typeColor,
+                      width: `${Math.min(statInfo.base_stat / MAX_BASE_STAT, 1) * 100}%`,
+                    },
+                  ]}
+                />
+              </View>
+            </View>
+          ))}
+
+          {/* Abilities - Hidden abilities are marked */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Abilities</Text>
+          {details.abilities.map(abilityInfo => (
+            <View key={abilityInfo.ability.name} style={styles.abilityRow}>
+              <Text style={[styles.abilityName, { color: theme.text }]}>
+                {formatAbilityName(abilityInfo.ability.name)}
+              </Text>
+              {abilityInfo.is_hidden && (
+                <View style={[styles.hiddenBadge, { backgroundColor: theme.accent }]}>
+                  <Text style={styles.hiddenBadgeText}>HIDDEN</Text>
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+
+        {/* Unlike Button - Only shown while the Pokemon is liked */}
+        {isLiked(details.id) && (
+          <TouchableOpacity
+            style={[styles.unlikeButton, { backgroundColor: theme.danger }]}
+            onPress={handleUnlike}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.buttonText}>💔 Unlike</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      {/* Header with back button and dark mode toggle */}
+      <Header
+        theme={theme}
+        showBackButton
+        onBackPress={onClose}
+        showDarkModeToggle
+        isDarkMode={isDarkMode}
+        onToggleDarkMode={toggleDarkMode}
+      />
+
+      {isLoading ? (
+        /* Loading State */
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : error || !pokemon ? (
+        /* Error State - Shown when API call fails */
+        <View style={styles.centerContainer}>
+          <Text style={[styles.errorText, { color: theme.danger }]}>{error}</Text>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.primary }]}
+            onPress={loadDetails}
+          >
+            <Text style={styles.buttonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        renderDetails(pokemon)
+      )}
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for DetailScreen
+ */
+const styles = StyleSheet.create({
+  // Main container
+  container: {
+    flex: 1,
+  },
+  // Centers loading and error states
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  // Details card
+  card: {
+    borderRadius: 24,
+    padding: 20,
+    alignItems: 'center',
+    // Shadow for iOS
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.15,
+    shadowRadius: 16,
+    // Shadow for Android
+    elevation: 8,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  // Colored strip at top based on Pokemon type
+  typeStrip: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 6,
+  },
+  // Pokemon ID badge
+  idBadge: {
+    position: 'absolute',
+    top: 16,
+    left: 18,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  idText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  image: {
+    width: 200,
+    height: 200,
+    marginTop: 20,
+  },
+  name: {
+    fontSize: 28,
+    fontWeight: '800',
+    marginTop: 8,
+    marginBottom: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 2,
+    textAlign: 'center',
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  flavorText: {
+    fontSize: 15,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 16,
+  },
+  // Height and weight row
+  measurements: {
+    flexDirection: 'row',
+    width: '100%',
+    marginBottom: 8,
+  },
+  measurement: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  measurementValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  measurementLabel: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    alignSelf: 'flex-start',
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  // Single base stat row
+  statRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    marginBottom: 6,
+  },
+  statLabel: {
+    width: 64,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  statValue: {
+    width: 36,
+    fontSize: 13,
+    fontWeight: '700',
+    textAlign: 'right',
+    marginRight: 8,
+  },
+  statTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  statBar: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  // Single ability row
+  abilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginBottom: 6,
+  },
+  abilityName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hiddenBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  hiddenBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  errorText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 20,
+  },
+  unlikeButton: {
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 25,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
+
+export default DetailScreen;
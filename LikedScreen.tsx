@@ -8,53 +8,384 @@
  * - Grid display of liked Pokemon (2 columns)
  * - Type-based color accents on cards
  * - Pokemon ID badges
+ * - Search by name, filter by type and sort the collection
+ * - Multi-select with bulk removal
+ * - Export to JSON, CSV or Pokemon Showdown team text
+ * - Share code that encodes the liked IDs in a compact, URL-safe form
+ * - Import from pasted JSON, CSV or share code with a preview before merging
  * - Empty state message when no Pokemon liked
  * - Total count in footer
  * - Dark mode support
+ * - Font scaling capped on compact controls so the layout holds
  * 
  * NAVIGATION:
  * - Back button returns to previous screen
+ * - Tapping a Pokemon opens its details (DetailScreen, as a modal),
+ *   or selects it in select mode
+ * - Opened with a pokemonId param (the pokeswipe://pokemon/<id> link),
+ *   shows that Pokemon's details
+ * - Opened with an importCode param (the pokeswipe://liked/<code> link),
+ *   shows its import preview
  */
 
-import React from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
   StatusBar,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Modal,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { NavigationAction, RouteProp } from '@react-navigation/native';
 import { usePokemon } from '../context/PokemonContext';
 import { lightTheme, darkTheme } from '../context/ThemeContext';
+import { RootStackParamList } from './routes';
 import Header from '../components/Header';
 import LikedPokemonCard from '../components/LikedPokemonCard';
 import { LikedPokemon } from '../types/pokemon';
+import { fetchPokemonById, getOfficialArtworkUrl } from '../services/pokeApi';
+import { getTypeColor } from '../utils/typeColors';
+import { formatDisplayName, toShowdownName, withDisplayName } from './pokemonNames';
+import { decodeShareCode, encodeShareCode } from './shareCode';
+import DetailScreen from './DetailScreen';
+import { MAX_FONT_SCALE } from './accessibility';
 
-// Navigation type definitions
-type RootStackParamList = {
-  Welcome: undefined;
-  Swipe: undefined;
-  Liked: undefined;
+// Available orderings for the collection
+type SortOption = 'recent' | 'id' | 'name' | 'type';
+
+// Labels for the sort selector, in display order
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'recent', label: 'Recent' },
+  { value: 'id', label: 'Dex #' },
+  { value: 'name', label: 'Name' },
+  { value: 'type', label: 'Type' },
+];
+
+// Version written to (and required from) JSON backups
+const EXPORT_VERSION = 1;
+// Header row of CSV backups
+const CSV_HEADER = 'id,name,types';
+// Pokemon Showdown teams hold at most six Pokemon
+const SHOWDOWN_TEAM_SIZE = 6;
+// Share code Pokemon fetched from PokeAPI at the same time
+const SHARE_FETCH_CONCURRENCY = 4;
+
+// Supported export formats
+type ExportFormat = 'json' | 'csv' | 'showdown' | 'code';
+
+// Labels for the export buttons, in display order
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'showdown', label: 'Showdown' },
+  { value: 'code', label: 'Share code' },
+];
+
+// A change to the liked collection waiting to be applied
+type PendingChange =
+  | { kind: 'add'; pokemon: LikedPokemon }
+  | { kind: 'remove'; id: number };
+
+// Result of parsing pasted import text
+type ImportPreview = {
+  added: LikedPokemon[];   // Pokemon not yet in the collection
+  duplicates: number;      // Entries skipped because they are already liked
+};
+
+/**
+ * Serializes the liked collection in the given format
+ * - json: versioned document with the full LikedPokemon entries
+ * - csv: id, name and "|"-separated types per row
+ * - showdown: species names, split into teams of six
+ * - code: share code of the IDs, for pasting into Import
+ * 
+ * @param pokemon - Liked Pokemon to export
+ * @param format - Export format
+ * @returns string - Exported text
+ */
+const exportLikedPokemon = (pokemon: LikedPokemon[], format: ExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), pokemon },
+        null,
+        2,
+      );
+    case 'csv':
+      return [CSV_HEADER, ...pokemon.map(p => `${p.id},${p.name},${p.types.join('|')}`)].join('\n');
+    case 'showdown': {
+      const teams: string[] = [];
+      for (let i = 0; i < pokemon.length; i += SHOWDOWN_TEAM_SIZE) {
+        const members = pokemon
+          .slice(i, i + SHOWDOWN_TEAM_SIZE)
+          .map(p => toShowdownName(p.name));
+        teams.push(`=== Liked ${teams.length + 1} ===\n\n${members.join('\n\n')}`);
+      }
+      return teams.join('\n\n');
+    }
+    case 'code':
+      return encodeShareCode(pokemon.map(p => p.id));
+  }
+};
+
+/**
+ * Loads the name and types of each shared Pokemon from PokeAPI
+ * At most SHARE_FETCH_CONCURRENCY requests are in flight at once
+ * 
+ * @param ids - Pokemon IDs from a share code
+ * @returns Promise<LikedPokemon[]> - Entries ready to add, in the order of ids
+ * @throws Error naming the first Pokemon that could not be loaded
+ */
+const fetchSharedPokemon = async (ids: number[]): Promise<LikedPokemon[]> => {
+  const results: LikedPokemon[] = new Array(ids.length);
+  let next = 0;
+
+  // Each worker takes the next unclaimed ID until none are left
+  const worker = async () => {
+    while (next < ids.length) {
+      const index = next++;
+      const id = ids[index];
+      try {
+        const pokemon = await fetchPokemonById(id);
+        results[index] = {
+          id: pokemon.id,
+          name: pokemon.name,
+          imageUrl: getOfficialArtworkUrl(pokemon.id),
+          types: pokemon.types.map(t => t.type.name),
+        };
+      } catch {
+        // Stop the other workers from starting new requests
+        next = ids.length;
+        throw new Error(`Pokémon #${id} could not be loaded.`);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(SHARE_FETCH_CONCURRENCY, ids.length) }, worker),
+  );
+  return results;
+};
+
+/**
+ * Builds a LikedPokemon from untrusted import data
+ * 
+ * @param id - Pokemon ID (must be a positive integer)
+ * @param name - Pokemon name (must be non-empty)
+ * @param types - Type names (must be a non-empty array of strings)
+ * @returns LikedPokemon or null if the data is invalid
+ *   The artwork URL is always rebuilt from the ID; one from the backup
+ *   could point anywhere
+ */
+const toLikedPokemon = (id: unknown, name: unknown, types: unknown): LikedPokemon | null => {
+  if (
+    typeof id !== 'number' || !Number.isInteger(id) || id <= 0 ||
+    typeof name !== 'string' || name.length === 0 ||
+    !Array.isArray(types) || types.length === 0 ||
+    !types.every(t => typeof t === 'string' && t.length > 0)
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    name: name.toLowerCase(),
+    imageUrl: getOfficialArtworkUrl(id),
+    types: types.map((t: string) => t.toLowerCase()),
+  };
+};
+
+/**
+ * Parses a JSON or CSV backup into LikedPokemon entries
+ * 
+ * @param text - Pasted backup text
+ * @returns LikedPokemon[] - Parsed entries
+ * @throws Error describing the first problem found
+ */
+const parseImport = (text: string): LikedPokemon[] => {
+  const trimmed = text.trim();
+
+  // JSON backup
+  if (trimmed.startsWith('{')) {
+    let data: { version?: unknown; pokemon?: unknown };
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The JSON could not be read.');
+    }
+    if (data.version !== EXPORT_VERSION || !Array.isArray(data.pokemon)) {
+      throw new Error('This is not a PokeSwipe JSON backup.');
+    }
+    return data.pokemon.map((entry, index) => {
+      const pokemon = toLikedPokemon(entry?.id, entry?.name, entry?.types);
+      if (!pokemon) {
+        throw new Error(`Entry ${index + 1} is not a valid Pokémon.`);
+      }
+      return pokemon;
+    });
+  }
+
+  // CSV backup
+  const [header, ...rows] = trimmed.split(/\r?\n/);
+  if (header?.trim().toLowerCase() !== CSV_HEADER) {
+    throw new Error(`CSV must start with the header "${CSV_HEADER}".`);
+  }
+  return rows
+    .filter(row => row.trim().length > 0)
+    .map((row, index) => {
+      const [id, name, types] = row.split(',').map(cell => cell.trim());
+      const pokemon = toLikedPokemon(Number(id), name, types ? types.split('|') : []);
+      if (!pokemon) {
+        throw new Error(`Row ${index + 2} is not a valid Pokémon.`);
+      }
+      return pokemon;
+    });
 };
 
 type LikedScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Liked'>;
+  route: RouteProp<RootStackParamList, 'Liked'>;
 };
 
 /**
  * LikedScreen Component
  * 
  * @param navigation - React Navigation prop for screen navigation
+ * @param route - Route prop, optionally carrying a share code to import
  */
-const LikedScreen: React.FC<LikedScreenProps> = ({ navigation }) => {
+const LikedScreen: React.FC<LikedScreenProps> = ({ navigation, route }) => {
   // Access global state from PokemonContext
-  const { isDarkMode, toggleDarkMode, likedPokemon } = usePokemon();
+  const {
+    isDarkMode,
+    toggleDarkMode,
+    likedPokemon,
+    addLikedPokemon,
+    removeLikedPokemon,
+  } = usePokemon();
   
   // Select theme based on dark mode setting
   const theme = isDarkMode ? darkTheme : lightTheme;
 
+  // Search, filter and sort controls
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedType, setSelectedType] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<SortOption>('recent');
+
+  // Multi-select state
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  // Bulk additions and removals still waiting to be applied
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  // Navigation held back until pendingChanges has drained
+  const blockedActionRef = useRef<NavigationAction | null>(null);
+
+  // Import / export panel state
+  const [showBackup, setShowBackup] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  // True while a share code's Pokemon are being fetched
+  const [isImportLoading, setIsImportLoading] = useState(false);
+  // Incremented per preview, and when the text or panel changes, so a slow
+  // share code fetch can't show a preview for text that is no longer there
+  const previewIdRef = useRef(0);
+  // Share code passed in by whoever opened the screen
+  const importCode = route.params?.importCode;
+
+  // Pokemon whose details are open (null = closed)
+  const [detailId, setDetailId] = useState<number | null>(null);
+  // Pokemon passed in by whoever opened the screen (e.g. a pokemon/<id> link)
+  const pokemonId = route.params?.pokemonId;
+
+  /**
+   * Applies queued bulk changes one per render
+   * addLikedPokemon and removeLikedPokemon build on the list from their own
+   * render, so calling them several times at once would only keep the last
+   */
+  useEffect(() => {
+    if (pendingChanges.length === 0) return;
+    const [change, ...rest] = pendingChanges;
+    const isInCollection = (id: number) => likedPokemon.some(p => p.id === id);
+    if (change.kind === 'add' && !isInCollection(change.pokemon.id)) {
+      addLikedPokemon(change.pokemon);
+    } else if (change.kind === 'remove' && isInCollection(change.id)) {
+      removeLikedPokemon(change.id);
+    }
+    setPendingChanges(rest);
+  }, [pendingChanges, likedPokemon, addLikedPokemon, removeLikedPokemon]);
+
+  /**
+   * Holds off leaving the screen while bulk changes are still queued
+   * The queue lives in this screen's state, so unmounting would drop the
+   * rest of an import or bulk removal
+   */
+  useEffect(() => {
+    return navigation.addListener('beforeRemove', e => {
+      if (pendingChanges.length === 0) return;
+      e.preventDefault();
+      blockedActionRef.current = e.data.action;
+    });
+  }, [navigation, pendingChanges.length]);
+
+  // Carry out the held-back navigation once the queue is empty
+  useEffect(() => {
+    if (pendingChanges.length > 0 || !blockedActionRef.current) return;
+    const action = blockedActionRef.current;
+    blockedActionRef.current = null;
+    navigation.dispatch(action);
+  }, [navigation, pendingChanges.length]);
+
+  /**
+   * Every type present in the collection, alphabetically
+   */
+  const availableTypes = useMemo(() => {
+    const types = new Set(likedPokemon.flatMap(p => p.types));
+    return Array.from(types).sort();
+  }, [likedPokemon]);
+
+  /**
+   * Liked Pokemon after applying search, type filter and sort
+   * The liked list is stored in the order Pokemon were liked,
+   * so "recent" is simply that order reversed
+   */
+  const visiblePokemon = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const filtered = likedPokemon.filter(
+      p =>
+        formatDisplayName(p.name).toLowerCase().includes(query) &&
+        (!selectedType || p.types.includes(selectedType)),
+    );
+
+    switch (sortBy) {
+      case 'id':
+        return filtered.sort((a, b) => a.id - b.id);
+      case 'name':
+        return filtered.sort((a, b) => a.name.localeCompare(b.name));
+      case 'type':
+        return filtered.sort(
+          (a, b) =>
+            (a.types[0] || '').localeCompare(b.types[0] || '') || a.id - b.id,
+        );
+      default:
+        return filtered.reverse();
+    }
+  }, [likedPokemon, searchQuery, selectedType, sortBy]);
+
+  // Clear a type filter whose last Pokemon was removed
+  useEffect(() => {
+    if (selectedType && !availableTypes.includes(selectedType)) {
+      setSelectedType(null);
+    }
+  }, [availableTypes, selectedType]);
+
   /**
    * Navigate back to previous screen
    */
@@ -62,23 +393,205 @@ const LikedScreen: React.FC<LikedScreenProps> = ({ navigation }) => {
     navigation.goBack();
   };
 
+  /**
+   * Enters or leaves select mode, clearing any selection
+   */
+  const toggleSelectMode = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds([]);
+  };
+
+  /**
+   * Adds or removes a Pokemon from the current selection
+   * 
+   * @param id - Pokemon ID to toggle
+   */
+  const toggleSelected = (id: number) => {
+    setSelectedIds(ids =>
+      ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id],
+    );
+  };
+
+  /**
+   * Asks for confirmation, then removes every selected Pokemon
+   */
+  const handleRemoveSelected = () => {
+    const count = selectedIds.length;
+    Alert.alert(
+      'Remove Pokémon',
+      `Remove ${count} Pokémon from your collection?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            setPendingChanges(changes => [
+              ...changes,
+              ...selectedIds.map(id => ({ kind: 'remove' as const, id })),
+            ]);
+            setSelectedIds([]);
+            setIsSelecting(false);
+          },
+        },
+      ],
+    );
+  };
+
+  // ==================== IMPORT / EXPORT ====================
+
+  /**
+   * Closes the import / export panel and resets the import form
+   */
+  const closeBackup = () => {
+    previewIdRef.current++;
+    setShowBackup(false);
+    setImportText('');
+    setImportPreview(null);
+    setImportError(null);
+    setIsImportLoading(false);
+  };
+
+  /**
+   * Opens the system share sheet with the collection in the given format
+   * 
+   * @param format - Export format
+   */
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await Share.share({
+        title: 'My liked Pokémon',
+        message: exportLikedPokemon(likedPokemon, format),
+      });
+    } catch (error) {
+      console.error('Error exporting liked Pokemon:', error);
+    }
+  };
+
+  /**
+   * Validates the pasted backup or share code and previews what would be added
+   * Pokemon already in the collection (by ID) are counted as duplicates;
+   * for share codes only the new Pokemon are fetched
+   * 
+   * @param text - Backup text or share code
+   */
+  const handlePreviewImport = async (text: string) => {
+    const previewId = ++previewIdRef.current;
+    setIsImportLoading(true);
+    try {
+      const knownIds = new Set(likedPokemon.map(p => p.id));
+      const sharedIds = decodeShareCode(text);
+      const parsed = sharedIds
+        ? await fetchSharedPokemon(sharedIds.filter(id => !knownIds.has(id)))
+        : parseImport(text);
+      if (previewId !== previewIdRef.current) return;
+      const added: LikedPokemon[] = [];
+      for (const pokemon of parsed) {
+        if (!knownIds.has(pokemon.id)) {
+          knownIds.add(pokemon.id);
+          added.push(pokemon);
+        }
+      }
+      const total = sharedIds ? sharedIds.length : parsed.length;
+      setImportPreview({ added, duplicates: total - added.length });
+      setImportError(null);
+    } catch (error) {
+      if (previewId !== previewIdRef.current) return;
+      setImportPreview(null);
+      setImportError(error instanceof Error ? error.message : 'Import failed.');
+    }
+    setIsImportLoading(false);
+  };
+
+  // Latest handlePreviewImport, so the effect below only reruns for a new code
+  const previewImportRef = useRef(handlePreviewImport);
+  previewImportRef.current = handlePreviewImport;
+
+  /**
+   * Opens the import preview for a share code passed as a route param
+   * The param is cleared once read so the same code can be passed again
+   */
+  useEffect(() => {
+    if (!importCode) return;
+    setShowBackup(true);
+    setImportText(importCode);
+    previewImportRef.current(importCode);
+    navigation.setParams({ importCode: undefined });
+  }, [importCode, navigation]);
+
+  /**
+   * Opens the details of a Pokemon passed as a route param
+   * Links are untrusted, so anything but a positive integer is ignored
+   */
+  useEffect(() => {
+    if (pokemonId === undefined) return;
+    if (Number.isInteger(pokemonId) && pokemonId > 0) {
+      setDetailId(pokemonId);
+    }
+    navigation.setParams({ pokemonId: undefined });
+  }, [pokemonId, navigation]);
+
+  /**
+   * Merges the previewed Pokemon into the liked collection
+   */
+  const handleConfirmImport = () => {
+    if (!importPreview) return;
+    setPendingChanges(changes => [
+      ...changes,
+      ...importPreview.added.map(pokemon => ({ kind: 'add' as const, pokemon })),
+    ]);
+    closeBackup();
+  };
+
   /**
    * Renders individual Pokemon card in the grid
+   * Tapping a card opens its details, or selects it in select mode
    * 
    * @param item - LikedPokemon object containing Pokemon data
    */
   const renderPokemon = ({ item }: { item: LikedPokemon }) => (
-    <LikedPokemonCard pokemon={item} theme={theme} />
+    <View>
+      <LikedPokemonCard
+        pokemon={withDisplayName(item)}
+        theme={theme}
+        onPress={isSelecting ? () => toggleSelected(item.id) : () => setDetailId(item.id)}
+      />
+      {/* Selection check mark - Shown on selected cards in select mode */}
+      {isSelecting && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.selectionBadge,
+            { borderColor: theme.primary, backgroundColor: theme.card },
+            selectedIds.includes(item.id) && { backgroundColor: theme.primary },
+          ]}
+        >
+          {selectedIds.includes(item.id) && <Text style={styles.selectionCheck}>✓</Text>}
+        </View>
+      )}
+    </View>
   );
 
   /**
    * Renders empty state when user has no liked Pokemon
-   * Displays a message encouraging them to start swiping
+   * Displays a message encouraging them to start swiping,
+   * or a hint to loosen the search when nothing matches
    */
-  const renderEmptyState = () => (
+  const renderEmptyState = () =>
+    likedPokemon.length > 0 ? (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyEmoji} accessibilityElementsHidden importantForAccessibility="no">🔍</Text>
+        <Text style={[styles.emptyTitle, { color: theme.text }]}>
+          No Matches
+        </Text>
+        <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
+          Try a different name or type.
+        </Text>
+      </View>
+    ) : (
     <View style={styles.emptyContainer}>
       {/* Broken heart emoji for empty state */}
-      <Text style={styles.emptyEmoji}>💔</Text>
+      <Text style={styles.emptyEmoji} accessibilityElementsHidden importantForAccessibility="no">💔</Text>
       <Text style={[styles.emptyTitle, { color: theme.text }]}>
         No Pokémon Liked Yet
       </Text>
@@ -107,32 +620,296 @@ const LikedScreen: React.FC<LikedScreenProps> = ({ navigation }) => {
         <Text style={[styles.title, { color: theme.text }]}>
           Pokémon you have liked
         </Text>
-        <Text style={styles.heartEmoji}>❤️</Text>
+        <Text style={styles.heartEmoji} accessibilityElementsHidden importantForAccessibility="no">
+          ❤️
+        </Text>
       </View>
 
+      {/* Import / Export link */}
+      <TouchableOpacity
+        onPress={() => setShowBackup(true)}
+        style={styles.backupLink}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.backupLinkText, { color: theme.accent }]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+          Import / Export
+        </Text>
+      </TouchableOpacity>
+
+      {/* Collection Controls - Only shown when Pokemon exist */}
+      {likedPokemon.length > 0 && (
+        <View style={styles.controls}>
+          {/* Search bar and select toggle */}
+          <View style={styles.searchRow}>
+            <TextInput
+              style={[
+                styles.searchInput,
+                { backgroundColor: theme.card, borderColor: theme.cardBorder, color: theme.text },
+              ]}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search by name"
+              placeholderTextColor={theme.textSecondary}
+              autoCorrect={false}
+              autoCapitalize="none"
+              clearButtonMode="while-editing"
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+              accessibilityLabel="Search liked Pokémon by name"
+            />
+            <TouchableOpacity
+              onPress={toggleSelectMode}
+              style={styles.selectButton}
+              accessibilityRole="button"
+            >
+              <Text
+                style={[styles.selectButtonText, { color: theme.accent }]}
+                maxFontSizeMultiplier={MAX_FONT_SCALE}
+              >
+                {isSelecting ? 'Cancel' : 'Select'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Type filter - Built from the types in the collection */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {availableTypes.map(type => {
+              const isSelected = selectedType === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.chip,
+                    { borderColor: getTypeColor(type) },
+                    isSelected && { backgroundColor: getTypeColor(type) },
+                  ]}
+                  onPress={() => setSelectedType(isSelected ? null : type)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Show ${type} type only`}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: theme.text },
+                      isSelected && styles.chipTextSelected,
+                    ]}
+                    maxFontSizeMultiplier={MAX_FONT_SCALE}
+                  >
+                    {type.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {/* Sort selector */}
+          <View style={styles.sortRow}>
+            <Text
+              style={[styles.sortLabel, { color: theme.textSecondary }]}
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+            >
+              Sort:
+            </Text>
+            {SORT_OPTIONS.map(option => {
+              const isSelected = sortBy === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    { borderColor: theme.primary },
+                    isSelected && { backgroundColor: theme.primary },
+                  ]}
+                  onPress={() => setSortBy(option.value)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Sort by ${option.label}`}
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: theme.text },
+                      isSelected && styles.chipTextSelected,
+                    ]}
+                    maxFontSizeMultiplier={MAX_FONT_SCALE}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
       {/* Pokemon Grid - Uses FlatList for performance with large lists */}
       <FlatList
-        data={likedPokemon}
+        data={visiblePokemon}
         renderItem={renderPokemon}
         keyExtractor={(item) => item.id.toString()}
         numColumns={2}  // Two-column grid layout
         contentContainerStyle={[
           styles.listContainer,
           // Center empty state vertically
-          likedPokemon.length === 0 && styles.emptyListContainer,
+          visiblePokemon.length === 0 && styles.emptyListContainer,
         ]}
+        extraData={[isSelecting, selectedIds]}
         ListEmptyComponent={renderEmptyState}
         showsVerticalScrollIndicator={false}
       />
 
-      {/* Footer with total count - Only shown when Pokemon exist */}
-      {likedPokemon.length > 0 && (
+      {/* Selection Footer - Bulk removal of selected Pokemon */}
+      {isSelecting ? (
+        <View style={[styles.footer, styles.selectionFooter, { backgroundColor: theme.card, borderTopColor: theme.cardBorder }]}>
+          <Text
+            style={[styles.footerText, { color: theme.textSecondary }]}
+            maxFontSizeMultiplier={MAX_FONT_SCALE}
+          >
+            {selectedIds.length} selected
+          </Text>
+          <TouchableOpacity
+            style={[
+              styles.removeButton,
+              { backgroundColor: theme.danger },
+              selectedIds.length === 0 && styles.removeButtonDisabled,
+            ]}
+            onPress={handleRemoveSelected}
+            disabled={selectedIds.length === 0}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: selectedIds.length === 0 }}
+          >
+            <Text style={styles.removeButtonText} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+              Remove
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : likedPokemon.length > 0 && (
+        /* Footer with total count - Only shown when Pokemon exist */
         <View style={[styles.footer, { backgroundColor: theme.card, borderTopColor: theme.cardBorder }]}>
-          <Text style={[styles.footerText, { color: theme.textSecondary }]}>
+          <Text
+            style={[styles.footerText, { color: theme.textSecondary }]}
+            maxFontSizeMultiplier={MAX_FONT_SCALE}
+          >
             Total: {likedPokemon.length} Pokémon in your collection
           </Text>
         </View>
       )}
+
+      {/* Import / Export Panel */}
+      <Modal visible={showBackup} transparent animationType="slide" onRequestClose={closeBackup}>
+        <View style={styles.modalBackdrop}>
+          <View style={[styles.backupPanel, { backgroundColor: theme.card }]}>
+            <Text style={[styles.panelTitle, { color: theme.text }]}>Import / Export</Text>
+
+            {/* Export - One button per format, opens the share sheet */}
+            <Text style={[styles.panelSectionTitle, { color: theme.textSecondary }]}>Export</Text>
+            <View style={styles.panelButtons}>
+              {EXPORT_FORMATS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.panelButton,
+                    { backgroundColor: theme.primary },
+                    likedPokemon.length === 0 && styles.removeButtonDisabled,
+                  ]}
+                  onPress={() => handleExport(option.value)}
+                  disabled={likedPokemon.length === 0}
+                >
+                  <Text style={styles.removeButtonText}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={[styles.importMessage, { color: theme.textSecondary }]}>
+              Paste a share code into Import on another device. Opening share codes as links is not supported yet.
+            </Text>
+
+            {/* Import - Paste a JSON or CSV backup, or a share code */}
+            <Text style={[styles.panelSectionTitle, { color: theme.textSecondary }]}>Import</Text>
+            <TextInput
+              style={[
+                styles.importInput,
+                { backgroundColor: theme.background, borderColor: theme.cardBorder, color: theme.text },
+              ]}
+              value={importText}
+              onChangeText={text => {
+                previewIdRef.current++;
+                setImportText(text);
+                setImportPreview(null);
+                setImportError(null);
+                setIsImportLoading(false);
+              }}
+              placeholder="Paste a JSON or CSV backup, or a share code"
+              placeholderTextColor={theme.textSecondary}
+              multiline
+              autoCorrect={false}
+              autoCapitalize="none"
+            />
+
+            {importError && (
+              <Text style={[styles.importMessage, { color: theme.danger }]}>{importError}</Text>
+            )}
+
+            {/* Preview - What the import will add */}
+            {importPreview && (
+              <Text style={[styles.importMessage, { color: theme.text }]}>
+                {importPreview.added.length > 0
+                  ? `Adds ${importPreview.added.length} Pokémon: ${importPreview.added
+                      .map(p => formatDisplayName(p.name))
+                      .join(', ')}`
+                  : 'Nothing new to add.'}
+                {importPreview.duplicates > 0 &&
+                  `\n${importPreview.duplicates} already in your collection will be skipped.`}
+              </Text>
+            )}
+
+            <View style={styles.panelButtons}>
+              <TouchableOpacity
+                style={[styles.panelButton, { backgroundColor: theme.danger }]}
+                onPress={closeBackup}
+              >
+                <Text style={styles.removeButtonText}>Close</Text>
+              </TouchableOpacity>
+              {importPreview ? (
+                <TouchableOpacity
+                  style={[
+                    styles.panelButton,
+                    { backgroundColor: theme.primary },
+                    importPreview.added.length === 0 && styles.removeButtonDisabled,
+                  ]}
+                  onPress={handleConfirmImport}
+                  disabled={importPreview.added.length === 0}
+                >
+                  <Text style={styles.removeButtonText}>Import</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[
+                    styles.panelButton,
+                    { backgroundColor: theme.primary },
+                    (importText.trim().length === 0 || isImportLoading) &&
+                      styles.removeButtonDisabled,
+                  ]}
+                  onPress={() => handlePreviewImport(importText)}
+                  disabled={importText.trim().length === 0 || isImportLoading}
+                >
+                  <Text style={styles.removeButtonText}>
+                    {isImportLoading ? 'Loading...' : 'Preview'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Pokemon Details - Full screen over the collection */}
+      <Modal
+        visible={detailId !== null}
+        animationType="slide"
+        onRequestClose={() => setDetailId(null)}
+      >
+        {detailId !== null && <DetailScreen id={detailId} onClose={() => setDetailId(null)} />}
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -162,6 +939,139 @@ const styles = StyleSheet.create({
     fontSize: 20,
     marginLeft: 8,
   },
+  // Link that opens the import / export panel
+  backupLink: {
+    alignSelf: 'center',
+    marginTop: -8,
+    marginBottom: 8,
+    padding: 4,
+  },
+  backupLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  // Dimmed background behind the import / export panel
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  // Import / export panel sheet
+  backupPanel: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  panelTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  panelSectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  panelButtons: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  panelButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 20,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  importInput: {
+    height: 120,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 13,
+    textAlignVertical: 'top',
+  },
+  importMessage: {
+    fontSize: 13,
+    marginTop: 8,
+    lineHeight: 18,
+  },
+  // Search, filter and sort controls
+  controls: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  selectButton: {
+    paddingLeft: 12,
+    paddingVertical: 8,
+  },
+  selectButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  chipRow: {
+    marginTop: 10,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  sortLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  // Filter and sort chip
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  // Check mark circle over a card in select mode
+  selectionBadge: {
+    position: 'absolute',
+    top: 16,
+    left: 16,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectionCheck: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '800',
+  },
   // Grid list container
   listContainer: {
     paddingHorizontal: 12,
@@ -204,6 +1114,24 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  // Footer layout in select mode
+  selectionFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  removeButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  removeButtonDisabled: {
+    opacity: 0.5,
+  },
+  removeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '700',
+  },
 });
 
 export default LikedScreen;
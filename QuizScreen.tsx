@@ -0,0 +1,667 @@
+/**
+ * QuizScreen Component
+ *
+ * "Who's That Pokémon?" - guess a Pokemon from its silhouette.
+ *
+ * FEATURES:
+ * - Official artwork shown as a black silhouette until answered
+ * - Four name choices, with wrong options from the same generation
+ * - Reveals the Pokemon and the right answer after each guess
+ * - Score and current streak for the session
+ * - Best streak saved for each difficulty (generation and liked-only mode)
+ * - Difficulty by generation (or all generations)
+ * - Optional "liked only" mode that quizzes on the user's collection
+ *   (alternate forms are left out, as they belong to no generation)
+ * - Dark mode support
+ *
+ * NAVIGATION:
+ * - Shown by WelcomeScreen as a full-screen modal
+ * - Back button (or Android back) closes it
+ */
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  TouchableOpacity,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { usePokemon } from '../context/PokemonContext';
+import { lightTheme, darkTheme } from '../context/ThemeContext';
+import { LikedPokemon } from '../types/pokemon';
+import { getOfficialArtworkUrl, formatPokemonName } from '../services/pokeApi';
+import Header from '../components/Header';
+import { GENERATIONS, getGeneration, shuffle } from './deck';
+import { loadStored, saveStored } from './storage';
+import { PokemonListEntry, fetchPokemonList } from './pokeApiClient';
+import { MAX_FONT_SCALE } from './accessibility';
+
+// Number of name choices per question
+const OPTION_COUNT = 4;
+// AsyncStorage key for the best streak of each difficulty
+const BEST_STREAKS_KEY = '@PokeSwipe:quizBestStreaks';
+// Highest ID with a generation; liked alternate forms (10001+) are skipped
+const LAST_SPECIES_ID = GENERATIONS[GENERATIONS.length - 1].end;
+
+type QuizScreenProps = {
+  onClose: () => void;  // Closes the modal the screen is shown in
+};
+
+// A Pokemon as far as the quiz needs to know it
+type QuizEntry = PokemonListEntry;
+
+// Best streak of each difficulty, keyed by getDifficultyKey
+type BestStreaks = Record<string, number>;
+
+// One round of the quiz
+type Question = {
+  answer: QuizEntry;
+  options: QuizEntry[];  // OPTION_COUNT choices, answer included, in display order
+};
+
+/**
+ * Names a difficulty, for storing its best streak
+ *
+ * @param generation - Generation quizzed on (null = any generation)
+ * @param likedOnly - Whether only liked Pokemon are quizzed
+ * @returns string - e.g. "all", "gen-3" or "liked-gen-3"
+ */
+const getDifficultyKey = (generation: number | null, likedOnly: boolean) =>
+  `${likedOnly ? 'liked-' : ''}${generation === null ? 'all' : `gen-${generation}`}`;
+
+/**
+ * Reads saved best streaks, dropping anything that isn't a positive count
+ *
+ * @param value - Value read from AsyncStorage
+ * @returns BestStreaks - Valid entries (empty if none were saved)
+ */
+const toBestStreaks = (value: unknown): BestStreaks => {
+  const streaks: BestStreaks = {};
+  if (value && typeof value === 'object') {
+    for (const [key, count] of Object.entries(value)) {
+      if (Number.isInteger(count) && count > 0) {
+        streaks[key] = count;
+      }
+    }
+  }
+  return streaks;
+};
+
+// Generation name lists already fetched this session, keyed by generation number
+const generationCache = new Map<number, QuizEntry[]>();
+
+/**
+ * Fetches the ID and name of every Pokemon in a generation
+ *
+ * @param generation - Generation number
+ * @returns Promise<QuizEntry[]> - Pokemon of that generation
+ * @throws PokeApiError if the request fails
+ */
+const fetchGenerationEntries = async (generation: number): Promise<QuizEntry[]> => {
+  const cached = generationCache.get(generation);
+  if (cached) {
+    return cached;
+  }
+
+  const { start, end } = GENERATIONS.find(gen => gen.number === generation)!;
+  const entries = await fetchPokemonList(start - 1, end - start + 1);
+
+  generationCache.set(generation, entries);
+  return entries;
+};
+
+/**
+ * Builds a question, drawing wrong options from the answer's generation
+ *
+ * @param generation - Generation to quiz on (null = any generation)
+ * @param pool - Liked Pokemon to pick the answer from (null = any Pokemon)
+ * @returns Promise<Question> - Answer and shuffled options
+ * @throws Error if API call fails
+ */
+const buildQuestion = async (
+  generation: number | null,
+  pool: LikedPokemon[] | null,
+): Promise<Question> => {
+  let answerId: number;
+  if (pool) {
+    answerId = pool[Math.floor(Math.random() * pool.length)].id;
+  } else {
+    const ranges = GENERATIONS.filter(gen => generation === null || gen.number === generation);
+    const first = ranges[0].start;
+    const last = ranges[ranges.length - 1].end;
+    answerId = first + Math.floor(Math.random() * (last - first + 1));
+  }
+
+  const entries = await fetchGenerationEntries(getGeneration(answerId).number);
+  const likedAnswer = pool?.find(p => p.id === answerId);
+  const answer =
+    entries.find(entry => entry.id === answerId) ??
+    (likedAnswer ? { id: likedAnswer.id, name: likedAnswer.name } : entries[0]);
+
+  const wrong = shuffle(entries.filter(entry => entry.id !== answer.id)).slice(0, OPTION_COUNT - 1);
+  return { answer, options: shuffle([answer, ...wrong]) };
+};
+
+/**
+ * QuizScreen Component
+ *
+ * @param onClose - Closes the modal the screen is shown in
+ */
+const QuizScreen: React.FC<QuizScreenProps> = ({ onClose }) => {
+  // Access global state from PokemonContext
+  const { isDarkMode, toggleDarkMode, likedPokemon } = usePokemon();
+
+  // Select theme based on dark mode setting
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  // Difficulty settings
+  const [generation, setGeneration] = useState<number | null>(null);
+  const [likedOnly, setLikedOnly] = useState(false);
+
+  // Current round; selectedId is set once the player answers
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  // Loading and error states
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scoreboard
+  const [score, setScore] = useState(0);
+  const [answered, setAnswered] = useState(0);
+  const [streak, setStreak] = useState(0);
+  const [bestStreaks, setBestStreaks] = useState<BestStreaks>({});
+
+  // Incremented per load so a slow response can't replace a newer question
+  const loadIdRef = useRef(0);
+
+  const isRevealed = selectedId !== null;
+  // Best streak to beat at the current difficulty
+  const difficultyKey = getDifficultyKey(generation, likedOnly);
+  const bestStreak = bestStreaks[difficultyKey] ?? 0;
+
+  /**
+   * Liked Pokemon that match the generation, or null outside liked-only mode
+   */
+  const likedPool = useMemo(
+    () =>
+      likedOnly
+        ? likedPokemon.filter(
+            p =>
+              p.id <= LAST_SPECIES_ID &&
+              (generation === null || getGeneration(p.id).number === generation),
+          )
+        : null,
+    [likedOnly, likedPokemon, generation],
+  );
+  const isPoolEmpty = likedPool !== null && likedPool.length === 0;
+
+  /**
+   * Loads a new question for the current settings
+   */
+  const loadQuestion = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    setIsLoading(true);
+    setError(null);
+    setSelectedId(null);
+    setQuestion(null);
+
+    // Nothing to ask; the empty state offers to leave liked-only mode
+    if (likedPool && likedPool.length === 0) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const next = await buildQuestion(generation, likedPool);
+      if (loadId !== loadIdRef.current) return;
+      setQuestion(next);
+    } catch (err) {
+      if (loadId !== loadIdRef.current) return;
+      console.error('Error loading quiz question:', err);
+      setError('Failed to load a question. Please try again.');
+    }
+    setIsLoading(false);
+  }, [generation, likedPool]);
+
+  useEffect(() => {
+    loadQuestion();
+  }, [loadQuestion]);
+
+  /**
+   * Restores the best streaks saved by earlier sessions
+   * Each is kept as the higher of the saved value and any streak already played
+   */
+  useEffect(() => {
+    loadStored<unknown>(BEST_STREAKS_KEY).then(saved => {
+      const savedStreaks = toBestStreaks(saved);
+      setBestStreaks(current => {
+        const merged = { ...savedStreaks };
+        for (const [key, count] of Object.entries(current)) {
+          merged[key] = Math.max(merged[key] ?? 0, count);
+        }
+        return merged;
+      });
+    });
+  }, []);
+
+  /**
+   * Starts a new game with different settings
+   * Score and streak start again; the best streak shown is the new difficulty's
+   *
+   * @param nextGeneration - Generation to quiz on (null = any generation)
+   * @param nextLikedOnly - Whether to quiz only on liked Pokemon
+   */
+  const changeSettings = (nextGeneration: number | null, nextLikedOnly: boolean) => {
+    setGeneration(nextGeneration);
+    setLikedOnly(nextLikedOnly);
+    setScore(0);
+    setAnswered(0);
+    setStreak(0);
+  };
+
+  /**
+   * Records the player's guess and reveals the Pokemon
+   *
+   * @param option - Name choice the player tapped
+   */
+  const handleAnswer = (option: QuizEntry) => {
+    if (!question || isRevealed) return;
+
+    setSelectedId(option.id);
+    setAnswered(answered + 1);
+    if (option.id === question.answer.id) {
+      setScore(score + 1);
+      setStreak(streak + 1);
+      if (streak + 1 > bestStreak) {
+        const next = { ...bestStreaks, [difficultyKey]: streak + 1 };
+        setBestStreaks(next);
+        saveStored(BEST_STREAKS_KEY, next);
+      }
+    } else {
+      setStreak(0);
+    }
+  };
+
+  /**
+   * Picks the background of an option button
+   * Once revealed, the answer turns green and a wrong pick turns red
+   *
+   * @param option - Name choice to style
+   * @returns string - Background color
+   */
+  const getOptionColor = (option: QuizEntry): string => {
+    if (!isRevealed || !question) return theme.card;
+    if (option.id === question.answer.id) return theme.primary;
+    if (option.id === selectedId) return theme.danger;
+    return theme.card;
+  };
+
+  /**
+   * Renders the silhouette card, options and next button
+   *
+   * @param current - Question to show
+   */
+  const renderQuestion = (current: Question) => {
+    const isCorrect = selectedId === current.answer.id;
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+          <Text style={[styles.title, { color: theme.text }]} accessibilityRole="header">
+            Who's That Pokémon?
+          </Text>
+
+          {/* Pokemon Image - Tinted black until the player answers */}
+          <Image
+            source={{ uri: getOfficialArtworkUrl(current.answer.id) }}
+            style={[styles.image, !isRevealed && styles.silhouette]}
+            resizeMode="contain"
+            accessibilityLabel={
+              isRevealed ? formatPokemonName(current.answer.name) : 'Mystery Pokémon silhouette'
+            }
+          />
+
+          {/* Reveal - Name and whether the guess was right */}
+          {isRevealed && (
+            <View style={styles.reveal}>
+              <Text
+                style={[styles.resultText, { color: isCorrect ? theme.primary : theme.danger }]}
+                accessibilityRole="alert"
+              >
+                {isCorrect ? 'Correct!' : 'Not quite!'}
+              </Text>
+              <Text style={[styles.name, { color: theme.text }]}>
+                It's {formatPokemonName(current.answer.name)}!
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Options - Four name choices */}
+        <View style={styles.options}>
+          {current.options.map(option => {
+            const backgroundColor = getOptionColor(option);
+            const isHighlighted = backgroundColor !== theme.card;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[
+                  styles.optionButton,
+                  { backgroundColor, borderColor: theme.cardBorder },
+                  isRevealed && !isHighlighted && styles.optionDimmed,
+                ]}
+                onPress={() => handleAnswer(option)}
+                disabled={isRevealed}
+                activeOpacity={0.8}
+                accessibilityRole="button"
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    { color: theme.text },
+                    isHighlighted && styles.optionTextHighlighted,
+                  ]}
+                >
+                  {formatPokemonName(option.name)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Next Button - Shown once the Pokemon is revealed */}
+        {isRevealed && (
+          <TouchableOpacity
+            style={[styles.nextButton, { backgroundColor: theme.primary }]}
+            onPress={loadQuestion}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+          >
+            <Text style={styles.buttonText}>Next Pokémon</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      {/* Header with back button and dark mode toggle */}
+      <Header
+        theme={theme}
+        showBackButton
+        onBackPress={onClose}
+        showDarkModeToggle
+        isDarkMode={isDarkMode}
+        onToggleDarkMode={toggleDarkMode}
+      />
+
+      {/* Difficulty - Generation chips and the liked-only toggle */}
+      <View style={styles.settingsBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              { borderColor: theme.accent, backgroundColor: theme.card },
+              likedOnly && { backgroundColor: theme.accent },
+              likedPokemon.length === 0 && styles.optionDimmed,
+            ]}
+            onPress={() => changeSettings(generation, !likedOnly)}
+            disabled={likedPokemon.length === 0}
+            accessibilityRole="button"
+            accessibilityState={{ selected: likedOnly, disabled: likedPokemon.length === 0 }}
+          >
+            <Text
+              style={[styles.chipText, { color: theme.text }, likedOnly && styles.chipTextSelected]}
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+            >
+              ♥ Liked only
+            </Text>
+          </TouchableOpacity>
+          {[null, ...GENERATIONS.map(gen => gen.number)].map(gen => {
+            const isSelected = generation === gen;
+            return (
+              <TouchableOpacity
+                key={gen ?? 'all'}
+                style={[
+                  styles.chip,
+                  { borderColor: theme.primary, backgroundColor: theme.card },
+                  isSelected && { backgroundColor: theme.primary },
+                ]}
+                onPress={() => changeSettings(gen, likedOnly)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text
+                  style={[styles.chipText, { color: theme.text }, isSelected && styles.chipTextSelected]}
+                  maxFontSizeMultiplier={MAX_FONT_SCALE}
+                >
+                  {gen === null ? 'All Gens' : `Gen ${gen}`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      {/* Scoreboard - Score, current streak and best streak at this difficulty */}
+      <View style={styles.scoreboard}>
+        {[
+          { label: 'Score', value: `${score}/${answered}` },
+          { label: 'Streak', value: `${streak}` },
+          { label: 'Best', value: `${bestStreak}` },
+        ].map(stat => (
+          <View
+            key={stat.label}
+            style={[styles.scoreBox, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+          >
+            <Text style={[styles.scoreValue, { color: theme.text }]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+              {stat.value}
+            </Text>
+            <Text
+              style={[styles.scoreLabel, { color: theme.textSecondary }]}
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+            >
+              {stat.label}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {isLoading ? (
+        /* Loading State */
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : isPoolEmpty ? (
+        /* Empty State - No liked Pokemon match the generation */
+        <View style={styles.centerContainer}>
+          <Text style={[styles.errorText, { color: theme.textSecondary }]}>
+            {generation === null
+              ? 'Like some Pokémon first to quiz on your collection.'
+              : `None of your liked Pokémon are from Gen ${generation}.`}
+          </Text>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.primary }]}
+            onPress={() => changeSettings(generation, false)}
+          >
+            <Text style={styles.buttonText}>Quiz on All Pokémon</Text>
+          </TouchableOpacity>
+        </View>
+      ) : error || !question ? (
+        /* Error State - Shown when API call fails */
+        <View style={styles.centerContainer}>
+          <Text style={[styles.errorText, { color: theme.danger }]}>{error}</Text>
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: theme.primary }]}
+            onPress={loadQuestion}
+          >
+            <Text style={styles.buttonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        renderQuestion(question)
+      )}
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for QuizScreen
+ */
+const styles = StyleSheet.create({
+  // Main container
+  container: {
+    flex: 1,
+  },
+  // Centers loading and error states
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingTop: 8,
+  },
+  // Difficulty chips
+  settingsBar: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  // Scoreboard
+  scoreboard: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  scoreBox: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  scoreValue: {
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  scoreLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  // Silhouette card
+  card: {
+    borderRadius: 24,
+    padding: 20,
+    alignItems: 'center',
+    // Shadow for iOS
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.15,
+    shadowRadius: 16,
+    // Shadow for Android
+    elevation: 8,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    fontStyle: 'italic',
+    letterSpacing: 0.5,
+    textAlign: 'center',
+  },
+  image: {
+    width: 200,
+    height: 200,
+    marginTop: 12,
+  },
+  // Draws every opaque pixel of the artwork in black
+  silhouette: {
+    tintColor: '#000000',
+  },
+  reveal: {
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  resultText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: '800',
+    marginTop: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  // Name choices
+  options: {
+    marginTop: 16,
+    gap: 10,
+  },
+  optionButton: {
+    paddingVertical: 14,
+    borderRadius: 25,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  optionDimmed: {
+    opacity: 0.5,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  optionTextHighlighted: {
+    color: '#FFFFFF',
+  },
+  nextButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 25,
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 20,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
+
+export default QuizScreen;
@@ -5,20 +5,44 @@
  * Implements Tinder-style card swiping with gesture support.
  * 
  * FEATURES:
- * - Fetches random Pokemon from PokeAPI
+ * - Deals Pokemon from a shuffled deck of unseen IDs (no repeats)
+ * - Deck order is saved, so the same order continues after a restart
+ * - Full National Dex, sized from PokeAPI's species count (saved, so later
+ *   launches deal at once and refresh the count in the background)
+ * - Opt-in regional, Mega and Gigantamax forms, named e.g. "Alolan Rattata"
  * - Gesture-based card swiping (drag left/right)
  * - Button-based like/dislike
  * - Animated card movements with rotation
  * - Live "LIKE"/"NOPE" overlay indicators
  * - Haptic feedback on actions
- * - Prefetching for smooth transitions
- * - Stacked card visual effect
+ * - Request timeouts and retries with jittered exponential backoff
+ * - Inline error banner when a card fails to load mid-session, worded for
+ *   the cause (offline, timeout, rate limited or missing from PokeAPI)
+ * - Prefetch queue of several cards, fetched concurrently
+ * - Stacked card effect showing the real upcoming Pokemon
+ * - "All caught up" state once every Pokemon has been seen
+ * - Rewind button that undoes the last few swipes
+ * - Type and generation filters that narrow the deck (forms included),
+ *   kept between sessions
+ * - "Daily 20" mode: a date-seeded deck that is the same for everyone,
+ *   with each day's picks saved so it can only be played once
+ * - "For you" mode: deals the types and generations the user likes sooner,
+ *   with some cards still dealt at random; kept between sessions
+ * 
+ * ACCESSIBILITY:
+ * - Card announces name, number, types and abilities
+ * - "Like" and "Dislike" exposed as screen reader actions
+ * - Crossfades instead of flying cards when Reduce Motion is on
+ * - Font scaling capped on compact controls so the layout holds
  * 
  * ANIMATIONS:
  * - Card rotation based on drag position
  * - Opacity changes during drag
  * - Smooth spring animations when releasing card
  * - Fly-out animation on swipe completion
+ * - Next card fades in once loaded, with a spinner while it is still loading
+ * - Fly-in animation from the exit side when rewinding
+ * - Crossfade replaces all of the above when Reduce Motion is on
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
@@ -34,15 +58,51 @@ import {
   PanResponder,
   Image,
   Vibration,
+  Modal,
+  ScrollView,
+  ViewStyle,
+  AccessibilityInfo,
+  AccessibilityActionEvent,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { usePokemon } from '../context/PokemonContext';
 import { lightTheme, darkTheme } from '../context/ThemeContext';
+import { RootStackParamList } from './routes';
 import { Pokemon } from '../types/pokemon';
-import { fetchRandomPokemon, getOfficialArtworkUrl } from '../services/pokeApi';
+import { getOfficialArtworkUrl, formatAbilityName } from '../services/pokeApi';
 import Header from '../components/Header';
 import PokemonCard from '../components/PokemonCard';
+import { typeColors, getTypeColor } from '../utils/typeColors';
+import {
+  DAILY_DECK_SIZE,
+  GENERATIONS,
+  buildDeck,
+  buildDailyDeck,
+  getDailyKey,
+  getGeneration,
+} from './deck';
+import { loadStored, saveStored } from './storage';
+import {
+  PokeApiError,
+  NetworkError,
+  TimeoutError,
+  NotFoundError,
+  RateLimitedError,
+  fetchPokemon,
+  fetchSpeciesCount,
+  fetchTypeMemberIds,
+  fetchVarieties,
+} from './pokeApiClient';
+import { formatDisplayName, withDisplayName } from './pokemonNames';
+import {
+  TOP_TYPE_COUNT,
+  getGenerationAffinities,
+  getTopTypes,
+  getTypeAffinities,
+  recommendDeck,
+} from './recommend';
+import { MAX_FONT_SCALE } from './accessibility';
 
 // Get device dimensions for responsive calculations
 const { width } = Dimensions.get('window');
@@ -52,18 +112,279 @@ const CARD_WIDTH = Math.min(width - 40, 380);
 const SWIPE_THRESHOLD = width * 0.25;
 // Duration of the fly-out animation in milliseconds
 const SWIPE_OUT_DURATION = 400;
+// Duration of each half of the crossfade used when Reduce Motion is on
+const FADE_DURATION = 200;
+// Number of upcoming cards kept fetched ahead of the current one
+const PREFETCH_DEPTH = 3;
+// Number of swipes that can be undone with the rewind button
+const MAX_REWINDS = 5;
+// Fallback dex size when the species count can't be fetched
+// Mirrors MAX_POKEMON_ID in services/pokeApi
+const DEX_SIZE = 898;
+
+/**
+ * AsyncStorage keys for state only this screen uses
+ * Same namespace prefix as the keys in PokemonContext
+ */
+const STORAGE_KEYS = {
+  DECK: '@PokeSwipe:swipeDeck',                // Shuffled order of the regular deck
+  FILTERS: '@PokeSwipe:swipeFilters',          // Selected types, generations and forms setting
+  DAILY_RESULTS: '@PokeSwipe:dailyResults',    // Today's Daily 20 picks
+  DEX_SIZE: '@PokeSwipe:dexSize',              // Species count last fetched from PokeAPI
+  FOR_YOU: '@PokeSwipe:forYou',                // Whether the deck is dealt in "For you" order
+};
+
+// All 18 Pokemon types, in the order they appear in typeColors
+const POKEMON_TYPES = Object.keys(typeColors);
+
+// Direction a card left the screen
+type SwipeDirection = 'left' | 'right';
+
+// A completed swipe that can be rewound
+type SwipeHistoryEntry = {
+  pokemon: Pokemon;
+  direction: SwipeDirection;
+  addedLike: boolean;  // Whether the swipe added the Pokemon to liked
+};
+
+// Outcome of one card in the Daily 20 deck
+type DailyResult = {
+  id: number;
+  name: string;
+  liked: boolean;
+};
+
+// Outcome of fetching a dealt card
+type FetchResult =
+  | { pokemon: Pokemon }
+  | { pokemon: null; error: unknown };  // error is null when nothing was fetched
+
+// Active filters as saved
+type SavedFilters = {
+  types: string[];
+  generations: number[];
+  includeForms: boolean;  // Whether regional, Mega and Gigantamax forms are dealt
+};
 
-// Navigation type definitions
-type RootStackParamList = {
-  Welcome: undefined;
-  Swipe: undefined;
-  Liked: undefined;
+// What the active filters let into the deck
+type DeckFilter = {
+  allowedIds: Set<number> | null;  // Dex IDs allowed (null = no filters)
+  formIds: number[];               // Alternate forms dealt as well
+};
+
+// Daily 20 picks as saved, tagged with the date they belong to
+type StoredDailyResults = {
+  date: string;  // YYYY-MM-DD, from getDailyKey()
+  results: DailyResult[];
+};
+
+// An upcoming card: where it was dealt from, its pending fetch and, once loaded, the Pokemon
+type QueuedCard = {
+  id: number;
+  deck: number[];  // Deck the ID was dealt from, so a failed card goes back there
+  promise: Promise<FetchResult>;
+  pokemon: Pokemon | null;
 };
 
 type SwipeScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Swipe'>;
 };
 
+/**
+ * Fetches a dealt Pokemon
+ * Also prefetches the Pokemon's image for faster display
+ * 
+ * @param id - Pokemon ID dealt from the deck
+ * @param signal - Cancels the fetch when the deck is replaced
+ * @returns FetchResult - The Pokemon, or the error that stopped it loading
+ */
+const fetchDealtPokemon = async (id: number, signal: AbortSignal): Promise<FetchResult> => {
+  try {
+    const pokemon = await fetchPokemon(id, signal);
+
+    // Prefetch the image for faster loading
+    Image.prefetch(getOfficialArtworkUrl(pokemon.id));
+    
+    return { pokemon };
+  } catch (err) {
+    if (!signal.aborted) {
+      console.error('Error fetching Pokemon:', err);
+    }
+    return { pokemon: null, error: err };
+  }
+};
+
+/**
+ * Checks whether a card that failed to load could load if dealt again
+ * Only client errors marked permanent (e.g. a 404) are not worth retrying
+ * 
+ * @param error - Error from fetchDealtPokemon
+ */
+const isRetryable = (error: unknown) => !(error instanceof PokeApiError) || error.retryable;
+
+/**
+ * Explains why the next card couldn't be loaded, for the error banner
+ * 
+ * @param error - Error from the last card that failed (null if unknown)
+ * @returns string - Message for the user
+ */
+const describeLoadError = (error: unknown): string => {
+  if (error instanceof NetworkError) {
+    return "Can't reach PokéAPI. Check that you're online.";
+  }
+  if (error instanceof TimeoutError) {
+    return 'PokéAPI is taking too long to respond.';
+  }
+  if (error instanceof RateLimitedError) {
+    return error.retryAfter
+      ? `PokéAPI is busy. Try again in ${Math.ceil(error.retryAfter / 1000)} s.`
+      : 'PokéAPI is busy. Wait a moment, then try again.';
+  }
+  if (error instanceof NotFoundError) {
+    return "PokéAPI has no data for the next Pokémon, so it was skipped.";
+  }
+  return "Couldn't load the next Pokémon.";
+};
+
+/**
+ * Builds the screen reader description of a Pokemon card
+ * 
+ * @param pokemon - Pokemon on the card
+ * @returns string - e.g. "Charizard, number 6. Types: fire, flying. Abilities: Blaze, Solar Power."
+ */
+const describePokemon = (pokemon: Pokemon): string => {
+  const types = pokemon.types.map(t => t.type.name).join(', ');
+  const abilities = pokemon.abilities
+    .map(a => formatAbilityName(a.ability.name))
+    .join(', ');
+  return `${formatDisplayName(pokemon.name)}, number ${pokemon.id}. Types: ${types}. Abilities: ${abilities}.`;
+};
+
+// Placeholder handler for preview cards, which can't be swiped
+const noop = () => {};
+
+/**
+ * Checks that a saved value is a list of Pokemon IDs
+ * 
+ * @param value - Value read from AsyncStorage
+ */
+const isIdList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(id => Number.isInteger(id) && id > 0);
+
+/**
+ * Reads saved filters, dropping anything that isn't a known type or generation
+ * 
+ * @param value - Value read from AsyncStorage
+ * @returns SavedFilters - Valid filters (empty lists and no forms if none were saved)
+ */
+const toSavedFilters = (value: unknown): SavedFilters => {
+  const saved = value as Partial<SavedFilters> | null;
+  return {
+    types: Array.isArray(saved?.types)
+      ? saved.types.filter(type => POKEMON_TYPES.includes(type))
+      : [],
+    generations: Array.isArray(saved?.generations)
+      ? saved.generations.filter(gen => GENERATIONS.some(g => g.number === gen))
+      : [],
+    includeForms: saved?.includeForms === true,
+  };
+};
+
+// Dex size fetched this session (null until fetched)
+let cachedDexSize: number | null = null;
+
+/**
+ * Gets the number of species in the National Dex
+ * Uses the count saved by an earlier launch at once and refreshes it in the
+ * background for next time; with nothing saved, waits for PokeAPI and
+ * falls back to DEX_SIZE if the request fails or times out
+ * 
+ * @returns Promise<number> - Highest species ID
+ */
+const fetchDexSize = async (): Promise<number> => {
+  if (cachedDexSize !== null) {
+    return cachedDexSize;
+  }
+
+  const stored = await loadStored<unknown>(STORAGE_KEYS.DEX_SIZE);
+  const refresh = fetchSpeciesCount().then(count => {
+    cachedDexSize = count;
+    saveStored(STORAGE_KEYS.DEX_SIZE, count);
+    return count;
+  });
+  if (typeof stored === 'number' && Number.isInteger(stored) && stored > 0) {
+    refresh.catch(err => console.error('Error refreshing dex size:', err));
+    return stored;
+  }
+
+  try {
+    return await refresh;
+  } catch (err) {
+    console.error('Error fetching dex size:', err);
+  }
+  return DEX_SIZE;
+};
+
+/**
+ * Adds an item to a list, or removes it if already present
+ */
+const toggleItem = <T,>(items: T[], item: T): T[] =>
+  items.includes(item) ? items.filter(i => i !== item) : [...items, item];
+
+/**
+ * Resolves the active filters into the Pokemon IDs they let into the deck
+ * A Pokemon must be in one of the generations and have one of the types;
+ * a form counts as its species' generation and has its own types
+ * 
+ * @param filters - Selected types and generations (empty = any) and forms setting
+ * @returns Promise<DeckFilter> - Allowed dex IDs and the forms to deal
+ */
+const resolveFilters = async (filters: SavedFilters): Promise<DeckFilter> => {
+  const { types, generations, includeForms } = filters;
+  const [members, varieties] = await Promise.all([
+    Promise.all(types.map(type => fetchTypeMemberIds(type))),
+    includeForms ? fetchVarieties() : [],
+  ]);
+  const typeIds = types.length > 0 ? new Set(members.flat()) : null;
+
+  /**
+   * Checks a Pokemon against the filters
+   * 
+   * @param id - Pokemon ID, matched against the types
+   * @param speciesId - Species ID, matched against the generations
+   */
+  const matches = (id: number, speciesId: number) =>
+    (generations.length === 0 || generations.includes(getGeneration(speciesId).number)) &&
+    (!typeIds || typeIds.has(id));
+
+  const formIds = varieties
+    .filter(variety => matches(variety.id, variety.speciesId))
+    .map(variety => variety.id);
+  if (types.length === 0 && generations.length === 0) {
+    return { allowedIds: null, formIds };
+  }
+
+  const dexIds = GENERATIONS.flatMap(gen =>
+    Array.from({ length: gen.end - gen.start + 1 }, (_, i) => gen.start + i),
+  );
+  return { allowedIds: new Set(dexIds.filter(id => matches(id, id))), formIds };
+};
+
+/**
+ * Looks up which Pokemon have the user's most-liked types
+ * Only the top few types are fetched; the rest don't affect "For you" weights
+ * 
+ * @param liked - Liked Pokemon
+ * @returns Promise - Member IDs of each top type
+ */
+const fetchTopTypeMembers = async (
+  liked: { types: string[] }[],
+): Promise<Record<string, Set<number>>> => {
+  const types = getTopTypes(getTypeAffinities(liked), TOP_TYPE_COUNT);
+  const members = await Promise.all(types.map(type => fetchTypeMemberIds(type)));
+  return Object.fromEntries(types.map((type, i) => [type, new Set(members[i])]));
+};
+
 /**
  * SwipeScreen Component
  * 
@@ -77,10 +398,12 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
     isDarkMode,
     toggleDarkMode,
     addLikedPokemon,
+    removeLikedPokemon,
     likedPokemon,
     isLiked,
     addSeenPokemon,
     seenPokemonIds,
+    clearSeenPokemon,
   } = usePokemon();
   
   // Select theme based on dark mode setting
@@ -88,19 +411,89 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
   
   // Current Pokemon being displayed
   const [currentPokemon, setCurrentPokemon] = useState<Pokemon | null>(null);
-  // Next Pokemon (prefetched for smooth transitions)
-  const [nextPokemon, setNextPokemon] = useState<Pokemon | null>(null);
+  // Loaded upcoming Pokemon, in deal order (shown as stacked previews)
+  const [queuedPokemon, setQueuedPokemon] = useState<Pokemon[]>([]);
   // Loading state for initial fetch
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   // Error state for failed API calls
   const [error, setError] = useState<string | null>(null);
+  // Non-blocking error shown when a card fails to load mid-session
+  const [loadError, setLoadError] = useState<string | null>(null);
   // Prevents multiple animations from running simultaneously
   const [isAnimating, setIsAnimating] = useState(false);
+  // True while a swiped card waits for the next Pokemon to load
+  const [isLoadingNext, setIsLoadingNext] = useState(false);
+  // Mirrors the OS Reduce Motion setting
+  const [isReduceMotionEnabled, setIsReduceMotionEnabled] = useState(false);
+  // True once every Pokemon has been dealt
+  const [isCaughtUp, setIsCaughtUp] = useState(false);
+  // Most recent swipes, newest last (bounded by MAX_REWINDS)
+  const [swipeHistory, setSwipeHistory] = useState<SwipeHistoryEntry[]>([]);
+
+  // Active filters
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
+  const [selectedGenerations, setSelectedGenerations] = useState<number[]>([]);
+  const [includeForms, setIncludeForms] = useState(false);
+  // Filter panel visibility and its unsaved selections
+  const [showFilters, setShowFilters] = useState(false);
+  const [draftTypes, setDraftTypes] = useState<string[]>([]);
+  const [draftGenerations, setDraftGenerations] = useState<number[]>([]);
+  const [draftIncludeForms, setDraftIncludeForms] = useState(false);
+
+  // Saved filters that couldn't be loaded at launch (null once applied)
+  const [unrestoredFilters, setUnrestoredFilters] = useState<SavedFilters | null>(null);
+
+  // IDs let into the deck by the active filters
+  const deckFilterRef = useRef<DeckFilter>({ allowedIds: null, formIds: [] });
+  // Daily 20 mode and the outcome of each card so far
+  const [isDailyMode, setIsDailyMode] = useState(false);
+  const [dailyResults, setDailyResults] = useState<DailyResult[]>([]);
+  // Mirrors isDailyMode for use inside memoized callbacks
+  const isDailyModeRef = useRef(false);
+  // "For you" mode, and the members of the liked types it weights (null = random order)
+  const [isForYou, setIsForYou] = useState(false);
+  const typeMembersRef = useRef<Record<string, Set<number>> | null>(null);
+  // Date of the Daily 20 being played, so picks are saved under the right day
+  const dailyDateRef = useRef(getDailyKey());
+
+  // Upcoming cards, fetched ahead of time (up to PREFETCH_DEPTH)
+  const queueRef = useRef<QueuedCard[]>([]);
+  // Aborted when the deck is replaced or the screen unmounts
+  const abortRef = useRef(new AbortController());
+  // Cards pushed back by rewinding, dealt again before the deck (newest last)
+  const rewoundRef = useRef<Pokemon[]>([]);
+
+  // Highest Pokemon ID in the deck, updated from PokeAPI on mount
+  const dexSizeRef = useRef(DEX_SIZE);
+  // Shuffled IDs still to be dealt (restored or built on first deal)
+  const deckRef = useRef<number[] | null>(null);
+  // Full order of the regular deck as last built, mirrored to AsyncStorage
+  const savedDeckRef = useRef<number[] | null>(null);
+  // Latest seen IDs, read when dealing so stale callbacks never repeat a Pokemon
+  const seenPokemonIdsRef = useRef(seenPokemonIds);
+  seenPokemonIdsRef.current = seenPokemonIds;
+  // Latest likes, read when building a "For you" deck
+  const likedPokemonRef = useRef(likedPokemon);
+  likedPokemonRef.current = likedPokemon;
 
   // ==================== ANIMATIONS ====================
   
   // Animated position value for card dragging
   const position = useRef(new Animated.ValueXY()).current;
+  // Card opacity, animated when the next card appears and for the Reduce Motion crossfade
+  const cardOpacity = useRef(new Animated.Value(1)).current;
+
+  /**
+   * Follows the OS Reduce Motion setting, including changes while open
+   */
+  useEffect(() => {
+    AccessibilityInfo.isReduceMotionEnabled().then(setIsReduceMotionEnabled);
+    const subscription = AccessibilityInfo.addEventListener(
+      'reduceMotionChanged',
+      setIsReduceMotionEnabled,
+    );
+    return () => subscription.remove();
+  }, []);
   
   /**
    * Card rotation interpolation
@@ -134,6 +527,19 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
   });
 
   // ==================== GESTURE HANDLING ====================
+
+  /**
+   * Latest swipe handlers and animation state, read by the PanResponder
+   * The responder is created once, so closing over these directly would
+   * keep the first render's versions (no card, Reduce Motion off);
+   * updated every render below the handlers
+   */
+  const gestureRef = useRef({
+    isAnimating,
+    swipeRight: noop,
+    swipeLeft: noop,
+    resetPosition: noop,
+  });
   
   /**
    * PanResponder for handling drag gestures
@@ -142,10 +548,10 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
   const panResponder = useRef(
     PanResponder.create({
       // Only respond to gestures when not animating
-      onStartShouldSetPanResponder: () => !isAnimating,
+      onStartShouldSetPanResponder: () => !gestureRef.current.isAnimating,
       // Require minimum horizontal movement to start gesture
       onMoveShouldSetPanResponder: (_, gesture) => {
-        return !isAnimating && Math.abs(gesture.dx) > 5;
+        return !gestureRef.current.isAnimating && Math.abs(gesture.dx) > 5;
       },
       // Update card position as user drags
       onPanResponderMove: (_, gesture) => {
@@ -155,77 +561,242 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
       onPanResponderRelease: (_, gesture) => {
         if (gesture.dx > SWIPE_THRESHOLD) {
           // Dragged far enough right - trigger like
-          swipeRight();
+          gestureRef.current.swipeRight();
         } else if (gesture.dx < -SWIPE_THRESHOLD) {
           // Dragged far enough left - trigger dislike
-          swipeLeft();
+          gestureRef.current.swipeLeft();
         } else {
           // Not far enough - reset to center
-          resetPosition();
+          gestureRef.current.resetPosition();
         }
       },
     })
   ).current;
 
   // ==================== API & DATA FETCHING ====================
+
+  /**
+   * Replaces the regular deck and saves its full order
+   * Dealing skips seen IDs, so the saved order stays valid as cards are
+   * shown and only needs saving when the deck is rebuilt
+   * 
+   * @param deck - Shuffled Pokemon IDs
+   * @returns The new deck to deal from
+   */
+  const startDeck = useCallback((deck: number[]): number[] => {
+    savedDeckRef.current = deck;
+    deckRef.current = [...deck];
+    saveStored(STORAGE_KEYS.DECK, deck);
+    return deckRef.current;
+  }, []);
+
+  /**
+   * Builds a regular deck of the unseen Pokemon the filters let in
+   * In "For you" mode it's ordered by the likes and swipes so far,
+   * otherwise shuffled
+   * 
+   * @returns Pokemon IDs in deal order
+   */
+  const buildRegularDeck = useCallback((): number[] => {
+    const { allowedIds, formIds } = deckFilterRef.current;
+    const seenIds = seenPokemonIdsRef.current;
+    const deck = buildDeck(dexSizeRef.current, seenIds, allowedIds, formIds);
+    const typeMembers = typeMembersRef.current;
+    if (!typeMembers) {
+      return deck;
+    }
+
+    const liked = likedPokemonRef.current;
+    return recommendDeck(deck, {
+      types: getTypeAffinities(liked),
+      generations: getGenerationAffinities(liked.map(p => p.id), seenIds),
+      typeMembers,
+    });
+  }, []);
   
   /**
-   * Fetches a single Pokemon from the API
-   * Attempts to find one the user hasn't seen before
-   * Also prefetches the Pokemon's image for faster display
+   * Deals the next unseen Pokemon ID from the deck
+   * Skips IDs that were marked as seen after the deck was built
    * 
-   * @returns Pokemon object or null if fetch fails
+   * @returns Pokemon ID or null if the deck is exhausted
    */
-  const fetchPokemon = useCallback(async (): Promise<Pokemon | null> => {
-    try {
-      let pokemon: Pokemon;
-      let attempts = 0;
-      const maxAttempts = 10;
-
-      // Try to find a Pokemon not yet seen by the user
-      do {
-        pokemon = await fetchRandomPokemon();
-        attempts++;
-      } while (
-        seenPokemonIds.includes(pokemon.id) &&
-        attempts < maxAttempts
-      );
+  const dealPokemonId = useCallback((): number | null => {
+    const deck = deckRef.current ?? startDeck(buildRegularDeck());
+    let id = deck.shift();
+    // The daily deck deals seen Pokemon too, so everyone gets the same cards
+    while (
+      id !== undefined &&
+      !isDailyModeRef.current &&
+      seenPokemonIdsRef.current.includes(id)
+    ) {
+      id = deck.shift();
+    }
+    return id ?? null;
+  }, [startDeck, buildRegularDeck]);
 
-      // Prefetch the image for faster loading
-      Image.prefetch(getOfficialArtworkUrl(pokemon.id));
-      
-      return pokemon;
-    } catch (err) {
-      console.error('Error fetching Pokemon:', err);
-      return null;
+  /**
+   * Checks whether every Pokemon has been dealt
+   */
+  const isDeckExhausted = () => deckRef.current?.length === 0;
+
+  /**
+   * Publishes the loaded front of the queue for the stacked previews
+   * Stops at the first card still loading so previews stay in deal order
+   */
+  const syncQueuedPokemon = useCallback(() => {
+    const loaded: Pokemon[] = [];
+    for (const card of queueRef.current) {
+      if (!card.pokemon) break;
+      loaded.push(card.pokemon);
     }
-  }, [seenPokemonIds]);
+    setQueuedPokemon(loaded);
+  }, []);
 
   /**
-   * Prefetches the next Pokemon in the background
-   * Called after displaying a new Pokemon for smooth transitions
+   * Tops the queue up to PREFETCH_DEPTH cards
+   * Each missing card is fetched concurrently in the background
    */
-  const prefetchNext = useCallback(async () => {
-    const pokemon = await fetchPokemon();
-    if (pokemon) {
-      setNextPokemon(pokemon);
+  const fillQueue = useCallback(() => {
+    const signal = abortRef.current.signal;
+    while (queueRef.current.length < PREFETCH_DEPTH) {
+      const id = dealPokemonId();
+      if (id === null || !deckRef.current) break;
+      const card: QueuedCard = {
+        id,
+        deck: deckRef.current,
+        promise: fetchDealtPokemon(id, signal),
+        pokemon: null,
+      };
+      card.promise.then(result => {
+        // Ignore results for a deck that has since been replaced
+        if (signal.aborted) return;
+        card.pokemon = result.pokemon;
+        syncQueuedPokemon();
+      });
+      queueRef.current.push(card);
+    }
+  }, [dealPokemonId, syncQueuedPokemon]);
+
+  /**
+   * Takes the next Pokemon off the queue, waiting for it if still loading
+   * Cards that failed to load are skipped, then the queue is topped up
+   * A failed card goes back to the end of the deck it was dealt from,
+   * unless the failure was permanent (e.g. a 404)
+   * The Daily 20 never skips: a failed card and everything queued behind
+   * it go back on top of the deck so the order stays the same for everyone
+   * 
+   * @returns FetchResult - The next Pokemon, or the error of the last card
+   *   that failed (null if the deck is exhausted or was replaced)
+   */
+  const takeNextPokemon = useCallback(async (): Promise<FetchResult> => {
+    const signal = abortRef.current.signal;
+    fillQueue();
+
+    let lastError: unknown = null;
+    let card = queueRef.current.shift();
+    while (card) {
+      const result = await card.promise;
+      if (signal.aborted) return { pokemon: null, error: null };
+      if (result.pokemon) {
+        syncQueuedPokemon();
+        fillQueue();
+        return result;
+      }
+      lastError = result.error;
+      const retryable = isRetryable(lastError);
+      if (retryable && isDailyModeRef.current) {
+        card.deck.unshift(card.id, ...queueRef.current.map(queued => queued.id));
+        queueRef.current = [];
+        break;
+      }
+      // Put the ID back so it can be dealt again later
+      if (retryable) {
+        card.deck.push(card.id);
+      }
+      card = queueRef.current.shift();
     }
-  }, [fetchPokemon]);
+
+    syncQueuedPokemon();
+    return { pokemon: null, error: lastError };
+  }, [fillQueue, syncQueuedPokemon]);
+
+  /**
+   * Drops every queued card, e.g. when filters change
+   * In-flight requests are cancelled and their cards are not put back
+   */
+  const resetQueue = () => {
+    setLoadError(null);
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    queueRef.current = [];
+    rewoundRef.current = [];
+    setQueuedPokemon([]);
+  };
+
+  /**
+   * Stop in-flight fetches when leaving the screen
+   */
+  useEffect(() => {
+    const controllerRef = abortRef;
+    return () => controllerRef.current.abort();
+  }, []);
 
   /**
    * Initial data fetch on component mount
-   * Fetches first Pokemon and starts prefetching next
+   * Restores the saved filters, "For you" setting and deck, or reads the dex
+   * size so the first deal can build one, then takes the first Pokemon, which also starts
+   * filling the queue
    */
   useEffect(() => {
     const init = async () => {
       setIsInitialLoading(true);
-      const pokemon = await fetchPokemon();
-      if (pokemon) {
-        setCurrentPokemon(pokemon);
-        addSeenPokemon(pokemon.id);
-        prefetchNext();
+      const [dexSize, savedDeck, savedFilters, savedForYou] = await Promise.all([
+        fetchDexSize(),
+        loadStored<unknown>(STORAGE_KEYS.DECK),
+        loadStored<unknown>(STORAGE_KEYS.FILTERS),
+        loadStored<unknown>(STORAGE_KEYS.FOR_YOU),
+      ]);
+      dexSizeRef.current = dexSize;
+      if (isIdList(savedDeck)) {
+        savedDeckRef.current = savedDeck;
+        deckRef.current = [...savedDeck];
+      }
+
+      const filters = toSavedFilters(savedFilters);
+      try {
+        deckFilterRef.current = await resolveFilters(filters);
+        setSelectedTypes(filters.types);
+        setSelectedGenerations(filters.generations);
+        setIncludeForms(filters.includeForms);
+      } catch (err) {
+        // The saved deck was built for these filters, so deal an unfiltered
+        // deck for this session only; storage keeps both for the next launch
+        console.error('Error restoring filters:', err);
+        setUnrestoredFilters(filters);
+        deckRef.current = buildDeck(dexSize, seenPokemonIdsRef.current);
+        savedDeckRef.current = [...deckRef.current];
+      }
+
+      if (savedForYou === true) {
+        try {
+          typeMembersRef.current = await fetchTopTypeMembers(likedPokemonRef.current);
+          setIsForYou(true);
+        } catch (err) {
+          // A restored deck keeps its saved order; a new one is shuffled this session
+          console.error('Error restoring For you mode:', err);
+        }
+      }
+
+      const signal = abortRef.current.signal;
+      const result = await takeNextPokemon();
+      if (signal.aborted) return;
+      if (result.pokemon) {
+        setCurrentPokemon(result.pokemon);
+        addSeenPokemon(result.pokemon.id);
+      } else if (isDeckExhausted()) {
+        setIsCaughtUp(true);
       } else {
-        setError('Failed to fetch Pokémon. Please try again.');
+        setError(`${describeLoadError(result.error)} Please try again.`);
       }
       setIsInitialLoading(false);
     };
@@ -239,6 +810,10 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
    * Called when user releases card without completing swipe
    */
   const resetPosition = () => {
+    if (isReduceMotionEnabled) {
+      position.setValue({ x: 0, y: 0 });
+      return;
+    }
     Animated.spring(position, {
       toValue: { x: 0, y: 0 },
       friction: 5,
@@ -246,31 +821,110 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
     }).start();
   };
 
+  /**
+   * Removes the current card from view
+   * Flies it off screen, or fades it out when Reduce Motion is on
+   * 
+   * @param direction - Side the card leaves towards
+   * @param onDone - Called once the card is gone
+   */
+  const animateCardOut = (direction: SwipeDirection, onDone: () => void) => {
+    const animation = isReduceMotionEnabled
+      ? Animated.timing(cardOpacity, {
+          toValue: 0,
+          duration: FADE_DURATION,
+          useNativeDriver: true,
+        })
+      : Animated.timing(position, {
+          toValue: { x: direction === 'right' ? width * 1.5 : -width * 1.5, y: 50 },
+          duration: SWIPE_OUT_DURATION,
+          useNativeDriver: true,
+        });
+    animation.start(onDone);
+  };
+
+  /**
+   * Fades the card back in once the next Pokemon is in place
+   * 
+   * @param onDone - Called once the card is fully visible
+   */
+  const fadeCardIn = (onDone?: () => void) => {
+    Animated.timing(cardOpacity, {
+      toValue: 1,
+      duration: FADE_DURATION,
+      useNativeDriver: true,
+    }).start(onDone);
+  };
+
   /**
    * Advances to the next Pokemon
-   * Uses prefetched Pokemon if available, otherwise fetches new one
+   * Uses the front of the queue; only waits if it is still loading
    */
   const moveToNext = useCallback(async () => {
-    if (nextPokemon) {
-      // Use prefetched Pokemon for instant transition
-      setCurrentPokemon(nextPokemon);
-      addSeenPokemon(nextPokemon.id);
-      setNextPokemon(null);
-      // Start prefetching the next one
-      prefetchNext();
+    const rewound = rewoundRef.current.pop();
+    if (rewound) {
+      // Return to the card that was on screen before rewinding
+      setCurrentPokemon(rewound);
+      return;
+    }
+
+    const signal = abortRef.current.signal;
+    const result = await takeNextPokemon();
+    if (signal.aborted) return;
+    if (result.pokemon) {
+      setLoadError(null);
+      setCurrentPokemon(result.pokemon);
+      addSeenPokemon(result.pokemon.id);
+    } else if (isDeckExhausted()) {
+      // Every Pokemon has been seen
+      setLoadError(null);
+      setCurrentPokemon(null);
+      setIsCaughtUp(true);
     } else {
-      // Fallback: fetch new Pokemon if prefetch wasn't ready
-      const pokemon = await fetchPokemon();
-      if (pokemon) {
-        setCurrentPokemon(pokemon);
-        addSeenPokemon(pokemon.id);
-        prefetchNext();
-      }
+      // Keep the session going; the banner offers a retry
+      setCurrentPokemon(null);
+      setLoadError(describeLoadError(result.error));
     }
-  }, [nextPokemon, fetchPokemon, addSeenPokemon, prefetchNext]);
+  }, [takeNextPokemon, addSeenPokemon]);
 
   // ==================== SWIPE ACTIONS ====================
+
+  /**
+   * Records a completed swipe so it can be rewound
+   * Drops the oldest entry once MAX_REWINDS is reached
+   * 
+   * @param entry - The swipe that just finished
+   */
+  const recordSwipe = (entry: SwipeHistoryEntry) => {
+    setSwipeHistory(history => [...history, entry].slice(-MAX_REWINDS));
+    if (isDailyMode) {
+      setDailyResults(results => [
+        ...results,
+        {
+          id: entry.pokemon.id,
+          name: entry.pokemon.name,
+          liked: entry.direction === 'right',
+        },
+      ]);
+    }
+  };
   
+  /**
+   * Resets the card and shows the next Pokemon after a swipe
+   * The swiped card stays hidden, and swiping stays blocked, until the next
+   * Pokemon is in place; otherwise a card still loading would leave the old
+   * Pokemon on screen to be swiped twice. Only then does the card fade in
+   */
+  const showNextCard = () => {
+    cardOpacity.setValue(0);
+    position.setValue({ x: 0, y: 0 });
+    setIsLoadingNext(true);
+    moveToNext().then(() => {
+      setIsLoadingNext(false);
+      fadeCardIn(() => setIsAnimating(false));
+    });
+  };
+
   /**
    * Handles swipe right (Like) action
    * - Triggers haptic feedback
@@ -286,13 +940,12 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
     Vibration.vibrate(50);
 
     // Animate card flying off screen to the right
-    Animated.timing(position, {
-      toValue: { x: width * 1.5, y: 50 },
-      duration: SWIPE_OUT_DURATION,
-      useNativeDriver: true,
-    }).start(() => {
+    animateCardOut('right', () => {
+      const addedLike = !isLiked(currentPokemon.id);
+      recordSwipe({ pokemon: currentPokemon, direction: 'right', addedLike });
+
       // Add to liked Pokemon if not already liked
-      if (currentPokemon && !isLiked(currentPokemon.id)) {
+      if (addedLike) {
         addLikedPokemon({
           id: currentPokemon.id,
           name: currentPokemon.name,
@@ -300,10 +953,10 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
           types: currentPokemon.types.map(t => t.type.name),
         });
       }
-      // Reset position and show next Pokemon
-      position.setValue({ x: 0, y: 0 });
-      setIsAnimating(false);
-      moveToNext();
+      AccessibilityInfo.announceForAccessibility(
+        `Liked ${formatDisplayName(currentPokemon.name)}`,
+      );
+      showNextCard();
     });
   };
 
@@ -321,15 +974,66 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
     Vibration.vibrate(30);
 
     // Animate card flying off screen to the left
-    Animated.timing(position, {
-      toValue: { x: -width * 1.5, y: 50 },
-      duration: SWIPE_OUT_DURATION,
+    animateCardOut('left', () => {
+      recordSwipe({ pokemon: currentPokemon, direction: 'left', addedLike: false });
+      AccessibilityInfo.announceForAccessibility(
+        `Disliked ${formatDisplayName(currentPokemon.name)}`,
+      );
+      showNextCard();
+    });
+  };
+
+  /**
+   * Rewinds the most recent swipe
+   * - Brings the previous card back in from the side it left
+   * - Removes the like if that swipe added one
+   * - Keeps the current card so it is shown again next
+   */
+  const rewind = () => {
+    const entry = swipeHistory[swipeHistory.length - 1];
+    if (isAnimating || !entry) return;
+    setIsAnimating(true);
+    setSwipeHistory(history => history.slice(0, -1));
+    if (isDailyMode) {
+      setDailyResults(results => results.slice(0, -1));
+    }
+
+    // Reverse the effects of the swipe
+    if (entry.addedLike) {
+      removeLikedPokemon(entry.pokemon.id);
+    }
+
+    // Current card goes back on top of the deck
+    if (currentPokemon) {
+      rewoundRef.current.push(currentPokemon);
+    }
+    setIsCaughtUp(false);
+    setLoadError(null);
+
+    AccessibilityInfo.announceForAccessibility(
+      `Undid swipe on ${formatDisplayName(entry.pokemon.name)}`,
+    );
+
+    // With Reduce Motion on, fade the previous card back in place
+    if (isReduceMotionEnabled) {
+      position.setValue({ x: 0, y: 0 });
+      cardOpacity.setValue(0);
+      setCurrentPokemon(entry.pokemon);
+      fadeCardIn(() => setIsAnimating(false));
+      return;
+    }
+
+    // Start off-screen on the side the card left, then fly back in
+    const exitX = entry.direction === 'right' ? width * 1.5 : -width * 1.5;
+    position.setValue({ x: exitX, y: 50 });
+    setCurrentPokemon(entry.pokemon);
+
+    Animated.spring(position, {
+      toValue: { x: 0, y: 0 },
+      friction: 6,
       useNativeDriver: true,
     }).start(() => {
-      // Reset position and show next Pokemon
-      position.setValue({ x: 0, y: 0 });
       setIsAnimating(false);
-      moveToNext();
     });
   };
 
@@ -337,6 +1041,25 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
   const handleLike = () => swipeRight();
   const handleDislike = () => swipeLeft();
 
+  // Hand this render's handlers to the PanResponder
+  gestureRef.current = { isAnimating, swipeRight, swipeLeft, resetPosition };
+
+  /**
+   * Handles the card's screen reader actions
+   * 
+   * @param event - Action chosen from the screen reader's actions menu
+   */
+  const handleAccessibilityAction = (event: AccessibilityActionEvent) => {
+    switch (event.nativeEvent.actionName) {
+      case 'like':
+        swipeRight();
+        break;
+      case 'dislike':
+        swipeLeft();
+        break;
+    }
+  };
+
   // ==================== NAVIGATION ====================
   
   /**
@@ -359,17 +1082,177 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
   const handleRetry = async () => {
     setIsInitialLoading(true);
     setError(null);
-    const pokemon = await fetchPokemon();
-    if (pokemon) {
-      setCurrentPokemon(pokemon);
-      addSeenPokemon(pokemon.id);
-      prefetchNext();
+    const signal = abortRef.current.signal;
+    const result = await takeNextPokemon();
+    if (signal.aborted) return;
+    if (result.pokemon) {
+      setCurrentPokemon(result.pokemon);
+      addSeenPokemon(result.pokemon.id);
+    } else if (isDeckExhausted()) {
+      setIsCaughtUp(true);
     } else {
-      setError('Failed to fetch Pokémon. Please try again.');
+      setError(`${describeLoadError(result.error)} Please try again.`);
     }
     setIsInitialLoading(false);
   };
 
+  /**
+   * Retries loading the next card after a mid-session failure
+   */
+  const handleRetryNext = () => {
+    setLoadError(null);
+    moveToNext();
+  };
+
+  /**
+   * Clears the seen Pokemon list and deals a fresh deck
+   * Offered once the user has seen every Pokemon
+   */
+  const handleStartOver = async () => {
+    clearSeenPokemon();
+    seenPokemonIdsRef.current = [];
+    resetQueue();
+    startDeck(buildRegularDeck());
+    setIsCaughtUp(false);
+    await handleRetry();
+  };
+
+  // ==================== FILTERS ====================
+
+  /**
+   * Opens the filter panel with the active filters preselected
+   */
+  const openFilters = () => {
+    setDraftTypes(selectedTypes);
+    setDraftGenerations(selectedGenerations);
+    setDraftIncludeForms(includeForms);
+    setShowFilters(true);
+  };
+
+  /**
+   * Applies new filters and deals a fresh card from the narrowed deck
+   * The selection only changes (and is saved) once the filters have loaded,
+   * so a failed load leaves the previous filters and deck in place
+   * 
+   * @param filters - Types and generations to include (empty = any) and forms setting
+   */
+  const applyFilters = async (filters: SavedFilters) => {
+    setShowFilters(false);
+    setIsInitialLoading(true);
+    setIsCaughtUp(false);
+
+    try {
+      deckFilterRef.current = await resolveFilters(filters);
+    } catch (err) {
+      console.error('Error loading filters:', err);
+      setError('Failed to apply filters. Your previous filters are still active.');
+      setIsInitialLoading(false);
+      return;
+    }
+    setSelectedTypes(filters.types);
+    setSelectedGenerations(filters.generations);
+    setIncludeForms(filters.includeForms);
+    setUnrestoredFilters(null);
+    saveStored(STORAGE_KEYS.FILTERS, filters);
+
+    // Discard cards dealt from the old deck
+    startDeck(buildRegularDeck());
+    resetQueue();
+    await handleRetry();
+  };
+
+  // ==================== FOR YOU ====================
+
+  /**
+   * Switches between random and "For you" dealing and deals a fresh card
+   * The new deck is ordered by the likes and swipes so far; a failed type
+   * lookup leaves the current mode and deck in place
+   * 
+   * @param forYou - true to deal by preference, false to deal at random
+   */
+  const setForYouMode = async (forYou: boolean) => {
+    setIsInitialLoading(true);
+    setIsCaughtUp(false);
+
+    try {
+      typeMembersRef.current = forYou ? await fetchTopTypeMembers(likedPokemonRef.current) : null;
+    } catch (err) {
+      console.error('Error loading For you mode:', err);
+      setError('Failed to load your preferences. Cards are still dealt at random.');
+      setIsInitialLoading(false);
+      return;
+    }
+    setIsForYou(forYou);
+    saveStored(STORAGE_KEYS.FOR_YOU, forYou);
+
+    // Discard cards dealt from the old deck
+    startDeck(buildRegularDeck());
+    resetQueue();
+    await handleRetry();
+  };
+
+  // ==================== DAILY 20 ====================
+
+  /**
+   * Switches between the Daily 20 deck and the regular deck
+   * Today's Daily 20 resumes after the picks already saved for this date,
+   * so it can't be replayed; rewind history is cleared either way
+   * 
+   * @param daily - true to start today's Daily 20, false to return to random
+   */
+  const setDailyMode = async (daily: boolean) => {
+    const dateKey = getDailyKey();
+    let results: DailyResult[] = [];
+    if (daily) {
+      const saved = await loadStored<StoredDailyResults>(STORAGE_KEYS.DAILY_RESULTS);
+      if (saved?.date === dateKey && Array.isArray(saved.results)) {
+        results = saved.results;
+      }
+    }
+
+    isDailyModeRef.current = daily;
+    dailyDateRef.current = dateKey;
+    setIsDailyMode(daily);
+    setDailyResults(results);
+    setSwipeHistory([]);
+    setIsCaughtUp(false);
+
+    // Discard cards dealt from the old deck; the regular deck resumes its saved order
+    if (daily) {
+      deckRef.current = buildDailyDeck(dateKey).slice(results.length);
+    } else if (savedDeckRef.current) {
+      deckRef.current = [...savedDeckRef.current];
+    } else {
+      deckRef.current = null;
+    }
+    resetQueue();
+    await handleRetry();
+  };
+
+  /**
+   * Saves the Daily 20 picks under their date after every change
+   */
+  useEffect(() => {
+    if (isDailyMode) {
+      saveStored(STORAGE_KEYS.DAILY_RESULTS, {
+        date: dailyDateRef.current,
+        results: dailyResults,
+      });
+    }
+  }, [isDailyMode, dailyResults]);
+
+  // Number of Daily 20 Pokemon liked so far
+  const dailyLikes = dailyResults.filter(result => result.liked).length;
+
+  // Whether any filter narrows the deck
+  const hasFilters = selectedTypes.length > 0 || selectedGenerations.length > 0;
+  // Active filters, as passed to applyFilters
+  const activeFilters: SavedFilters = {
+    types: selectedTypes,
+    generations: selectedGenerations,
+    includeForms,
+  };
+
   // ==================== ANIMATED STYLES ====================
   
   /**
@@ -377,6 +1260,7 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
    * Includes translation, rotation, and will be applied via Animated.View
    */
   const cardAnimatedStyle = {
+    opacity: cardOpacity,
     transform: [
       { translateX: position.x },
       { translateY: position.y },
@@ -408,6 +1292,29 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
     };
   }, [likeOpacity, dislikeOpacity]);
 
+  // ==================== STACKED PREVIEWS ====================
+
+  // Upcoming cards in the order they will be shown (rewound cards first)
+  const upcomingPokemon = [...rewoundRef.current].reverse().concat(queuedPokemon);
+
+  /**
+   * Renders an upcoming Pokemon behind the main card
+   * 
+   * @param pokemon - Upcoming Pokemon to preview
+   * @param depthStyle - Scale, offset and opacity for its place in the stack
+   */
+  const renderStackedPreview = (pokemon: Pokemon, depthStyle: ViewStyle) => (
+    <View
+      key={pokemon.id}
+      pointerEvents="none"
+      style={[styles.stackedPreview, depthStyle]}
+      accessibilityElementsHidden
+      importantForAccessibility="no-hide-descendants"
+    >
+      <PokemonCard pokemon={withDisplayName(pokemon)} theme={theme} onLike={noop} onDislike={noop} />
+    </View>
+  );
+
   // ==================== RENDER ====================
 
   return (
@@ -424,7 +1331,161 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
         onToggleDarkMode={toggleDarkMode}
       />
 
+      {/* Filter Bar - Daily 20 and For you toggles and active filters, tap a filter chip to remove it */}
+      <View style={styles.filterBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              { borderColor: theme.accent, backgroundColor: theme.card },
+              isDailyMode && { backgroundColor: theme.accent },
+            ]}
+            onPress={() => setDailyMode(!isDailyMode)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: theme.text },
+                isDailyMode && styles.chipTextSelected,
+              ]}
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+            >
+              📅 Daily {DAILY_DECK_SIZE}{isDailyMode ? ' ✕' : ''}
+            </Text>
+          </TouchableOpacity>
+          {!isDailyMode && (
+            <TouchableOpacity
+              style={[
+                styles.chip,
+                { borderColor: theme.accent, backgroundColor: theme.card },
+                isForYou && { backgroundColor: theme.accent },
+              ]}
+              onPress={() => setForYouMode(!isForYou)}
+              accessibilityRole="switch"
+              accessibilityState={{ checked: isForYou }}
+              accessibilityHint="Deals the types and generations you like sooner"
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: theme.text },
+                  isForYou && styles.chipTextSelected,
+                ]}
+                maxFontSizeMultiplier={MAX_FONT_SCALE}
+              >
+                ✨ For you{isForYou ? ' ✕' : ''}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {!isDailyMode && (
+            <TouchableOpacity
+            style={[styles.chip, { borderColor: theme.cardBorder, backgroundColor: theme.card }]}
+            onPress={openFilters}
+          >
+            <Text style={[styles.chipText, { color: theme.text }]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+              ⚙ Filters
+            </Text>
+            </TouchableOpacity>
+          )}
+          {!isDailyMode && unrestoredFilters && (
+            <TouchableOpacity
+              style={[styles.chip, { borderColor: theme.danger, backgroundColor: theme.card }]}
+              onPress={() => applyFilters(unrestoredFilters)}
+              accessibilityRole="button"
+              accessibilityHint="Tries loading your saved filters again"
+            >
+              <Text style={[styles.chipText, { color: theme.danger }]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+                ⚠ Saved filters didn't load. Retry
+              </Text>
+            </TouchableOpacity>
+          )}
+          {!isDailyMode && selectedGenerations.map(gen => (
+            <TouchableOpacity
+              key={`gen-${gen}`}
+              style={[styles.chip, { borderColor: theme.primary, backgroundColor: theme.primary }]}
+              onPress={() =>
+                applyFilters({ ...activeFilters, generations: toggleItem(selectedGenerations, gen) })
+              }
+            >
+              <Text style={[styles.chipText, styles.chipTextSelected]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+                Gen {gen} ✕
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {!isDailyMode && selectedTypes.map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, { borderColor: getTypeColor(type), backgroundColor: getTypeColor(type) }]}
+              onPress={() => applyFilters({ ...activeFilters, types: toggleItem(selectedTypes, type) })}
+            >
+              <Text style={[styles.chipText, styles.chipTextSelected]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+                {type.toUpperCase()} ✕
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {!isDailyMode && includeForms && (
+            <TouchableOpacity
+              style={[styles.chip, { borderColor: theme.accent, backgroundColor: theme.accent }]}
+              onPress={() => applyFilters({ ...activeFilters, includeForms: false })}
+              accessibilityHint="Stops dealing regional, Mega and Gigantamax forms"
+            >
+              <Text style={[styles.chipText, styles.chipTextSelected]} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+                Forms ✕
+              </Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+
+        {/* Daily 20 Progress - Cards swiped out of the daily deck */}
+        {isDailyMode && (
+          <View style={styles.dailyProgress}>
+            <View style={[styles.dailyProgressTrack, { backgroundColor: theme.cardBorder }]}>
+              <View
+                style={[
+                  styles.dailyProgressFill,
+                  {
+                    backgroundColor: theme.accent,
+                    width: `${(dailyResults.length / DAILY_DECK_SIZE) * 100}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text
+              style={[styles.dailyProgressText, { color: theme.textSecondary }]}
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+            >
+              {dailyResults.length} / {DAILY_DECK_SIZE}
+            </Text>
+          </View>
+        )}
+      </View>
+
       <View style={styles.content}>
+        {/* Error Banner - A card failed to load; swiping can resume after retry */}
+        {loadError && (
+          <View style={[styles.errorBanner, { backgroundColor: theme.card, borderColor: theme.danger }]}>
+            <Text
+              style={[styles.errorBannerText, { color: theme.danger }]}
+              maxFontSizeMultiplier={MAX_FONT_SCALE}
+              accessibilityRole="alert"
+            >
+              ⚠ {loadError}
+            </Text>
+            <TouchableOpacity
+              onPress={handleRetryNext}
+              style={styles.errorBannerButton}
+              accessibilityRole="button"
+            >
+              <Text
+                style={[styles.errorBannerButtonText, { color: theme.primary }]}
+                maxFontSizeMultiplier={MAX_FONT_SCALE}
+              >
+                Retry
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Loading State - Shown during initial fetch */}
         {isInitialLoading ? (
           <View style={styles.loadingContainer}>
@@ -444,38 +1505,103 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
               <Text style={styles.retryButtonText}>Try Again</Text>
             </TouchableOpacity>
           </View>
+        ) : isCaughtUp && isDailyMode ? (
+          /* Daily Summary - Shown after the last Daily 20 card */
+          <View style={styles.caughtUpContainer}>
+            <Text style={styles.caughtUpEmoji}>📅</Text>
+            <Text style={[styles.caughtUpTitle, { color: theme.text }]}>
+              Daily {DAILY_DECK_SIZE} Complete!
+            </Text>
+            <Text style={[styles.caughtUpSubtitle, { color: theme.textSecondary }]}>
+              You liked {dailyLikes} of {DAILY_DECK_SIZE} Pokémon today.
+            </Text>
+            <ScrollView style={styles.dailySummaryList}>
+              {dailyResults.map(result => (
+                <Text
+                  key={result.id}
+                  style={[
+                    styles.dailySummaryItem,
+                    { color: result.liked ? theme.primary : theme.textSecondary },
+                  ]}
+                >
+                  {result.liked ? '♥' : '✕'} {formatDisplayName(result.name)}
+                </Text>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              style={[styles.retryButton, { backgroundColor: theme.primary }]}
+              onPress={() => setDailyMode(false)}
+            >
+              <Text style={styles.retryButtonText}>Back to Random</Text>
+            </TouchableOpacity>
+          </View>
+        ) : isCaughtUp ? (
+          /* Caught Up State - Shown when every Pokemon has been seen */
+          <View style={styles.caughtUpContainer}>
+            <Text style={styles.caughtUpEmoji}>🎉</Text>
+            <Text style={[styles.caughtUpTitle, { color: theme.text }]}>
+              You're All Caught Up!
+            </Text>
+            <Text style={[styles.caughtUpSubtitle, { color: theme.textSecondary }]}>
+              {hasFilters
+                ? "You've seen every Pokémon matching your filters. Start over to swipe through them again."
+                : "You've seen every Pokémon. Start over to swipe through them again."}
+            </Text>
+            <TouchableOpacity
+              style={[styles.retryButton, { backgroundColor: theme.primary }]}
+              onPress={handleStartOver}
+            >
+              <Text style={styles.retryButtonText}>Start Over</Text>
+            </TouchableOpacity>
+          </View>
         ) : currentPokemon ? (
           /* Main Content - Pokemon card with stacked effect */
           <View style={styles.cardsContainer}>
-            {/* Stacked card placeholders - appear behind main card */}
-            <View 
-              style={[
-                styles.stackedCard, 
-                styles.backCard,
-                { 
-                  backgroundColor: isDarkMode ? '#0D1A30' : '#E0E0E0',
-                  borderColor: isDarkMode ? '#1A2A45' : '#CCCCCC',
-                }
-              ]} 
-            />
-            <View 
-              style={[
-                styles.stackedCard, 
-                styles.middleCard,
-                { 
-                  backgroundColor: isDarkMode ? '#121F38' : '#EBEBEB',
-                  borderColor: isDarkMode ? '#1E3050' : '#D8D8D8',
-                }
-              ]} 
-            />
+            {/* Stacked cards - the next two Pokemon appear behind main card */}
+            {upcomingPokemon[1] ? (
+              renderStackedPreview(upcomingPokemon[1], styles.backCard)
+            ) : (
+              <View 
+                style={[
+                  styles.stackedCard, 
+                  styles.backCard,
+                  { 
+                    backgroundColor: isDarkMode ? '#0D1A30' : '#E0E0E0',
+                    borderColor: isDarkMode ? '#1A2A45' : '#CCCCCC',
+                  }
+                ]} 
+              />
+            )}
+            {upcomingPokemon[0] ? (
+              renderStackedPreview(upcomingPokemon[0], styles.middleCard)
+            ) : (
+              <View 
+                style={[
+                  styles.stackedCard, 
+                  styles.middleCard,
+                  { 
+                    backgroundColor: isDarkMode ? '#121F38' : '#EBEBEB',
+                    borderColor: isDarkMode ? '#1E3050' : '#D8D8D8',
+                  }
+                ]} 
+              />
+            )}
 
             {/* Main Pokemon Card - Draggable with gestures */}
             <Animated.View 
               style={cardAnimatedStyle}
+              accessible
+              accessibilityLabel={describePokemon(currentPokemon)}
+              accessibilityHint="Swipe right to like or left to dislike, or use the actions menu"
+              accessibilityActions={[
+                { name: 'like', label: 'Like' },
+                { name: 'dislike', label: 'Dislike' },
+              ]}
+              onAccessibilityAction={handleAccessibilityAction}
               {...panResponder.panHandlers}
             >
               <PokemonCard
-                pokemon={currentPokemon}
+                pokemon={withDisplayName(currentPokemon)}
                 theme={theme}
                 onLike={handleLike}
                 onDislike={handleDislike}
@@ -483,23 +1609,188 @@ const SwipeScreen: React.FC<SwipeScreenProps> = ({ navigation }) => {
                 dislikeOpacity={dislikeOpacityValue}
               />
             </Animated.View>
+
+            {/* Spinner in place of the card while the next Pokemon loads */}
+            {isLoadingNext && (
+              <ActivityIndicator
+                style={styles.cardLoading}
+                size="large"
+                color={theme.primary}
+                accessibilityLabel="Loading the next Pokémon"
+              />
+            )}
           </View>
         ) : null}
 
         {/* Swipe Hint - Guides new users */}
         <View style={styles.swipeHint}>
-          <Text style={[styles.swipeHintText, { color: theme.textSecondary }]}>
+          <Text
+            style={[styles.swipeHintText, { color: theme.textSecondary }]}
+            maxFontSizeMultiplier={MAX_FONT_SCALE}
+            importantForAccessibility="no"
+            accessibilityElementsHidden
+          >
             ← Swipe or use buttons →
           </Text>
         </View>
 
+        {/* Rewind Button - Undoes the last swipe */}
+        {swipeHistory.length > 0 && (
+          <TouchableOpacity
+            style={[styles.rewindButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={rewind}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityLabel="Undo last swipe"
+          >
+            <Text style={[styles.rewindButtonText, { color: theme.text }]} maxFontSizeMultiplier={1}>
+              ↺
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Liked Pokemon Counter - Tappable to view collection */}
-        <TouchableOpacity onPress={handleViewLiked} style={styles.likedCounter}>
-          <Text style={[styles.likedCounterText, { color: theme.accent }]}>
+        <TouchableOpacity
+          onPress={handleViewLiked}
+          style={styles.likedCounter}
+          accessibilityRole="button"
+          accessibilityHint="Opens your liked Pokémon"
+        >
+          <Text
+            style={[styles.likedCounterText, { color: theme.accent }]}
+            maxFontSizeMultiplier={MAX_FONT_SCALE}
+          >
             ♥ {likedPokemon.length} Pokémon liked
           </Text>
         </TouchableOpacity>
       </View>
+
+      {/* Filter Panel - Pick types, generations and forms for the deck */}
+      <Modal
+        visible={showFilters}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowFilters(false)}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={[styles.filterPanel, { backgroundColor: theme.card }]}>
+            <Text style={[styles.filterTitle, { color: theme.text }]}>Filter Pokémon</Text>
+
+            {/* Type options - any selected type matches */}
+            <Text style={[styles.filterSectionTitle, { color: theme.textSecondary }]}>Types</Text>
+            <View style={styles.filterOptions}>
+              {POKEMON_TYPES.map(type => {
+                const isSelected = draftTypes.includes(type);
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[
+                      styles.chip,
+                      { borderColor: getTypeColor(type) },
+                      isSelected && { backgroundColor: getTypeColor(type) },
+                    ]}
+                    onPress={() => setDraftTypes(toggleItem(draftTypes, type))}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        { color: theme.text },
+                        isSelected && styles.chipTextSelected,
+                      ]}
+                    >
+                      {type.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Generation options - any selected generation matches */}
+            <Text style={[styles.filterSectionTitle, { color: theme.textSecondary }]}>
+              Generations
+            </Text>
+            <View style={styles.filterOptions}>
+              {GENERATIONS.map(gen => {
+                const isSelected = draftGenerations.includes(gen.number);
+                return (
+                  <TouchableOpacity
+                    key={gen.number}
+                    style={[
+                      styles.chip,
+                      { borderColor: theme.primary },
+                      isSelected && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => setDraftGenerations(toggleItem(draftGenerations, gen.number))}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        { color: theme.text },
+                        isSelected && styles.chipTextSelected,
+                      ]}
+                    >
+                      Gen {gen.number}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Alternate forms - dealt alongside the species they belong to */}
+            <Text style={[styles.filterSectionTitle, { color: theme.textSecondary }]}>
+              Forms
+            </Text>
+            <View style={styles.filterOptions}>
+              <TouchableOpacity
+                style={[
+                  styles.chip,
+                  { borderColor: theme.accent },
+                  draftIncludeForms && { backgroundColor: theme.accent },
+                ]}
+                onPress={() => setDraftIncludeForms(!draftIncludeForms)}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: draftIncludeForms }}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: theme.text },
+                    draftIncludeForms && styles.chipTextSelected,
+                  ]}
+                >
+                  Include regional, Mega & Gigantamax
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Panel actions */}
+            <View style={styles.filterActions}>
+              <TouchableOpacity
+                style={[styles.filterButton, { backgroundColor: theme.danger }]}
+                onPress={() => {
+                  setDraftTypes([]);
+                  setDraftGenerations([]);
+                  setDraftIncludeForms(false);
+                }}
+              >
+                <Text style={styles.retryButtonText}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.filterButton, { backgroundColor: theme.primary }]}
+                onPress={() =>
+                  applyFilters({
+                    types: draftTypes,
+                    generations: draftGenerations,
+                    includeForms: draftIncludeForms,
+                  })
+                }
+              >
+                <Text style={styles.retryButtonText}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -512,6 +1803,100 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  // Row of filter chips below the header
+  filterBar: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  // Daily 20 progress bar and count
+  dailyProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  dailyProgressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  dailyProgressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  dailyProgressText: {
+    marginLeft: 8,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  // Scrollable list of Daily 20 outcomes
+  dailySummaryList: {
+    maxHeight: 240,
+    alignSelf: 'stretch',
+    marginBottom: 20,
+  },
+  dailySummaryItem: {
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  // Filter chip (used in the bar and the panel)
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  // Dimmed background behind the filter panel
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  // Filter panel sheet
+  filterPanel: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  filterTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  filterSectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  filterOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  filterActions: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  filterButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 20,
+    alignItems: 'center',
+    marginHorizontal: 6,
+  },
   // Content area - centers cards
   content: {
     flex: 1,
@@ -533,6 +1918,14 @@ const styles = StyleSheet.create({
     borderRadius: 24,
     borderWidth: 1,
   },
+  // Wrapper for a real upcoming card rendered in the stack
+  stackedPreview: {
+    position: 'absolute',
+  },
+  // Spinner centred over the hidden card
+  cardLoading: {
+    position: 'absolute',
+  },
   // Back card (furthest behind) - smallest scale, most offset
   backCard: {
     transform: [{ translateY: 16 }, { scale: 0.92 }],
@@ -552,6 +1945,32 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontStyle: 'italic',
   },
+  // Inline error banner at the top of the content area
+  errorBanner: {
+    position: 'absolute',
+    top: 12,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    zIndex: 10,
+  },
+  errorBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorBannerButton: {
+    paddingLeft: 12,
+  },
+  errorBannerButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
   // Error state container
   errorContainer: {
     alignItems: 'center',
@@ -572,6 +1991,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  // "All caught up" state container
+  caughtUpContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  caughtUpEmoji: {
+    fontSize: 64,
+    marginBottom: 20,
+  },
+  caughtUpTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  caughtUpSubtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 20,
+  },
   // Swipe instruction hint
   swipeHint: {
     marginTop: 20,
@@ -580,6 +2020,28 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontStyle: 'italic',
   },
+  // Rewind button at bottom left
+  rewindButton: {
+    position: 'absolute',
+    bottom: 30,
+    left: 20,
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    // Shadow
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  rewindButtonText: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
   // Liked Pokemon counter at bottom
   likedCounter: {
     position: 'absolute',
@@ -6,15 +6,18 @@
  * FEATURES:
  * - Displays app instructions in a styled card
  * - "Let's Go!" button to start swiping
+ * - "Who's That Pokémon?" button to start the silhouette quiz
  * - Dark mode toggle in header
  * - Link to view previously liked Pokemon (if any)
+ * - Scrolls when large text pushes the card past the screen
  * 
  * NAVIGATION:
  * - Navigates to SwipeScreen when "Let's Go!" is pressed
+ * - Opens QuizScreen as a full-screen modal when "Who's That Pokémon?" is pressed
  * - Navigates to LikedScreen when liked Pokemon link is pressed
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -22,25 +25,22 @@ import {
   TouchableOpacity,
   Dimensions,
   StatusBar,
+  ScrollView,
+  Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { usePokemon } from '../context/PokemonContext';
 import { lightTheme, darkTheme } from '../context/ThemeContext';
+import { RootStackParamList } from './routes';
 import Header from '../components/Header';
+import QuizScreen from './QuizScreen';
 
 // Get device screen width for responsive card sizing
 const { width } = Dimensions.get('window');
 // Card width is responsive but capped at 340px for larger screens
 const CARD_WIDTH = Math.min(width - 40, 340);
 
-// Type definitions for navigation
-type RootStackParamList = {
-  Welcome: undefined;
-  Swipe: undefined;
-  Liked: undefined;
-};
-
 type WelcomeScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Welcome'>;
 };
@@ -57,6 +57,9 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ navigation }) => {
   // Select theme based on dark mode setting
   const theme = isDarkMode ? darkTheme : lightTheme;
 
+  // Whether the silhouette quiz is open
+  const [showQuiz, setShowQuiz] = useState(false);
+
   /**
    * Navigate to the main swipe screen
    */
@@ -84,16 +87,20 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ navigation }) => {
         onToggleDarkMode={toggleDarkMode}
       />
 
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
         {/* Welcome Card - Contains instructions and start button */}
         <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
           {/* Decorative heart icon in top-right corner */}
-          <View style={styles.heartContainer}>
-            <Text style={styles.heartIcon}>♥</Text>
+          <View
+            style={styles.heartContainer}
+            accessibilityElementsHidden
+            importantForAccessibility="no-hide-descendants"
+          >
+            <Text style={styles.heartIcon} maxFontSizeMultiplier={1}>♥</Text>
           </View>
 
           {/* Card Title */}
-          <Text style={[styles.title, { color: theme.text }]}>
+          <Text style={[styles.title, { color: theme.text }]} accessibilityRole="header">
             How to Play PokeSwipe
           </Text>
 
@@ -115,20 +122,43 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ navigation }) => {
             style={[styles.startButton, { backgroundColor: theme.primary }]}
             onPress={handleStart}
             activeOpacity={0.8}
+            accessibilityRole="button"
           >
             <Text style={styles.startButtonText}>Let's Go!</Text>
           </TouchableOpacity>
+
+          {/* Quiz Button - Opens the silhouette quiz */}
+          <TouchableOpacity
+            style={[styles.quizButton, { borderColor: theme.primary }]}
+            onPress={() => setShowQuiz(true)}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.quizButtonText, { color: theme.primary }]}>
+              Who's That Pokémon?
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Link to view liked Pokemon - Only shown if user has liked some */}
         {likedPokemon.length > 0 && (
-          <TouchableOpacity onPress={handleViewLiked} style={styles.likedLink}>
+          <TouchableOpacity
+            onPress={handleViewLiked}
+            style={styles.likedLink}
+            accessibilityRole="button"
+            accessibilityLabel={`View your ${likedPokemon.length} liked Pokémon`}
+          >
             <Text style={[styles.likedLinkText, { color: theme.accent }]}>
               View your {likedPokemon.length} liked Pokémon ♥
             </Text>
           </TouchableOpacity>
         )}
-      </View>
+      </ScrollView>
+
+      {/* Silhouette Quiz - Full screen over the welcome card */}
+      <Modal visible={showQuiz} animationType="slide" onRequestClose={() => setShowQuiz(false)}>
+        <QuizScreen onClose={() => setShowQuiz(false)} />
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -143,9 +173,11 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
-  // Content wrapper - centers the card vertically and horizontally
+  // Content wrapper - centers the card vertically and horizontally,
+  // growing past the screen height when the text is scaled up
   content: {
-    flex: 1,
+    flexGrow: 1,
+    paddingVertical: 20,
     justifyContent: 'center',
     alignItems: 'center',
     paddingHorizontal: 20,
@@ -227,6 +259,22 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     letterSpacing: 1,
   },
+  // Secondary outlined button for the quiz
+  quizButton: {
+    width: '100%',
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 30,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  // Quiz button text
+  quizButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    fontStyle: 'italic',
+    letterSpacing: 0.5,
+  },
   // Link to view liked Pokemon
   likedLink: {
     marginTop: 24,
@@ -0,0 +1,117 @@
+/**
+ * @format
+ */
+
+import {
+  DAILY_DECK_SIZE,
+  DAILY_DEX_SIZE,
+  GENERATIONS,
+  buildDailyDeck,
+  buildDeck,
+  createSeededRandom,
+  getDailyKey,
+  getGeneration,
+  hashString,
+  shuffle,
+} from '../deck';
+
+describe('hashString', () => {
+  test('matches the FNV-1a reference values', () => {
+    expect(hashString('')).toBe(2166136261);
+    expect(hashString('a')).toBe(0xe40c292c);
+  });
+});
+
+describe('createSeededRandom', () => {
+  test('produces the mulberry32 sequence for a seed', () => {
+    const random = createSeededRandom(42);
+    expect([random(), random(), random()]).toEqual([
+      0.6011037519201636, 0.44829055899754167, 0.8524657934904099,
+    ]);
+  });
+
+  test('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(hashString('2026-01-01'));
+    const b = createSeededRandom(hashString('2026-01-01'));
+    for (let i = 0; i < 100; i++) {
+      const value = a();
+      expect(value).toBe(b());
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('shuffle', () => {
+  test('keeps every item', () => {
+    const items = Array.from({ length: 50 }, (_, i) => i);
+    expect([...shuffle([...items])].sort((a, b) => a - b)).toEqual(items);
+  });
+
+  test('uses the given random source', () => {
+    const order = shuffle([1, 2, 3, 4, 5], createSeededRandom(7));
+    expect(shuffle([1, 2, 3, 4, 5], createSeededRandom(7))).toEqual(order);
+  });
+});
+
+describe('getGeneration', () => {
+  test('finds the generation of the first and last Pokemon of each range', () => {
+    for (const gen of GENERATIONS) {
+      expect(getGeneration(gen.start).number).toBe(gen.number);
+      expect(getGeneration(gen.end).number).toBe(gen.number);
+    }
+  });
+
+  test('treats IDs past the known ranges as the latest generation', () => {
+    expect(getGeneration(2000).number).toBe(GENERATIONS[GENERATIONS.length - 1].number);
+  });
+});
+
+describe('getDailyKey', () => {
+  test('uses the UTC date', () => {
+    expect(getDailyKey(new Date('2026-03-04T23:30:00-05:00'))).toBe('2026-03-05');
+  });
+});
+
+describe('buildDeck', () => {
+  test('deals every unseen ID once', () => {
+    const deck = buildDeck(10, [2, 5]);
+    expect([...deck].sort((a, b) => a - b)).toEqual([1, 3, 4, 6, 7, 8, 9, 10]);
+  });
+
+  test('keeps only IDs allowed by the filters', () => {
+    const deck = buildDeck(10, [3], new Set([1, 3, 4, 20]));
+    expect([...deck].sort((a, b) => a - b)).toEqual([1, 4]);
+  });
+
+  test('deals unseen alternate forms alongside the dex', () => {
+    const deck = buildDeck(3, [2, 10092], null, [10091, 10092]);
+    expect([...deck].sort((a, b) => a - b)).toEqual([1, 3, 10091]);
+  });
+
+  test('is empty once every Pokemon has been seen', () => {
+    expect(buildDeck(3, [1, 2, 3])).toEqual([]);
+  });
+});
+
+describe('buildDailyDeck', () => {
+  // Pinned so a change to the hash, PRNG or shuffle can't silently give
+  // players on different app versions different decks
+  test('deals the same cards for a date on every device', () => {
+    expect(buildDailyDeck('2026-01-01')).toEqual([
+      483, 604, 949, 562, 82, 850, 749, 150, 161, 332,
+      713, 110, 430, 836, 605, 522, 88, 824, 334, 995,
+    ]);
+  });
+
+  test('deals DAILY_DECK_SIZE distinct IDs within the fixed range', () => {
+    const deck = buildDailyDeck('2026-10-19');
+    expect(deck).toHaveLength(DAILY_DECK_SIZE);
+    expect(new Set(deck).size).toBe(DAILY_DECK_SIZE);
+    expect(deck.every(id => id >= 1 && id <= DAILY_DEX_SIZE)).toBe(true);
+  });
+
+  test('deals different cards on different dates', () => {
+    expect(buildDailyDeck('2026-10-19')).not.toEqual(buildDailyDeck('2026-10-20'));
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @format
+ */
+
+import {
+  formatDisplayName,
+  getSpeciesName,
+  getVarietyKind,
+  toShowdownName,
+  withDisplayName,
+} from '../pokemonNames';
+
+describe('getVarietyKind', () => {
+  test('recognises regional, Mega and Gigantamax forms', () => {
+    expect(getVarietyKind('rattata-alola')).toBe('regional');
+    expect(getVarietyKind('tauros-paldea-combat-breed')).toBe('regional');
+    expect(getVarietyKind('charizard-mega-x')).toBe('mega');
+    expect(getVarietyKind('venusaur-mega')).toBe('mega');
+    expect(getVarietyKind('pikachu-gmax')).toBe('gmax');
+    expect(getVarietyKind('urshifu-rapid-strike-gmax')).toBe('gmax');
+  });
+
+  test('ignores default forms and other variations', () => {
+    expect(getVarietyKind('pikachu')).toBeNull();
+    expect(getVarietyKind('meganium')).toBeNull();
+    expect(getVarietyKind('giratina-origin')).toBeNull();
+    expect(getVarietyKind('pikachu-alola-cap')).toBeNull();
+  });
+});
+
+describe('getSpeciesName', () => {
+  const species = new Set(['rattata', 'mr-mime', 'urshifu', 'charizard']);
+
+  test('strips form words until a species matches', () => {
+    expect(getSpeciesName('rattata-alola', species)).toBe('rattata');
+    expect(getSpeciesName('mr-mime-galar', species)).toBe('mr-mime');
+    expect(getSpeciesName('urshifu-single-strike-gmax', species)).toBe('urshifu');
+    expect(getSpeciesName('charizard', species)).toBe('charizard');
+  });
+
+  test('returns null for an unknown species', () => {
+    expect(getSpeciesName('missingno-alola', species)).toBeNull();
+  });
+});
+
+describe('formatDisplayName', () => {
+  test('names forms the way the games do', () => {
+    expect(formatDisplayName('rattata-alola')).toBe('Alolan Rattata');
+    expect(formatDisplayName('darmanitan-galar-zen')).toBe('Galarian Darmanitan Zen');
+    expect(formatDisplayName('charizard-mega-x')).toBe('Mega Charizard X');
+    expect(formatDisplayName('pikachu-gmax')).toBe('Gigantamax Pikachu');
+  });
+
+  test('formats other names like formatPokemonName', () => {
+    expect(formatDisplayName('pikachu')).toBe('Pikachu');
+    expect(formatDisplayName('mr-mime')).toBe('Mr mime');
+  });
+});
+
+describe('withDisplayName', () => {
+  test('renames forms and leaves other Pokemon untouched', () => {
+    const rattata = { id: 10091, name: 'rattata-alola' };
+    expect(withDisplayName(rattata)).toEqual({ id: 10091, name: 'Alolan Rattata' });
+    const pikachu = { id: 25, name: 'pikachu' };
+    expect(withDisplayName(pikachu)).toBe(pikachu);
+  });
+});
+
+describe('toShowdownName', () => {
+  test('uses Showdown spelling for punctuated species', () => {
+    expect(toShowdownName('mr-mime')).toBe('Mr. Mime');
+    expect(toShowdownName('ho-oh')).toBe('Ho-Oh');
+    expect(toShowdownName('farfetchd')).toBe('Farfetch’d');
+    expect(toShowdownName('iron-valiant')).toBe('Iron Valiant');
+    expect(toShowdownName('pikachu')).toBe('Pikachu');
+  });
+
+  test('drops default form suffixes', () => {
+    expect(toShowdownName('giratina-altered')).toBe('Giratina');
+    expect(toShowdownName('toxtricity-amped')).toBe('Toxtricity');
+    expect(toShowdownName('maushold-family-of-four')).toBe('Maushold');
+  });
+
+  test('writes other forms as Species-Form', () => {
+    expect(toShowdownName('giratina-origin')).toBe('Giratina-Origin');
+    expect(toShowdownName('rattata-alola')).toBe('Rattata-Alola');
+    expect(toShowdownName('mr-mime-galar')).toBe('Mr. Mime-Galar');
+    expect(toShowdownName('charizard-mega-x')).toBe('Charizard-Mega-X');
+    expect(toShowdownName('urshifu-single-strike-gmax')).toBe('Urshifu-Gmax');
+    expect(toShowdownName('urshifu-rapid-strike-gmax')).toBe('Urshifu-Rapid-Strike-Gmax');
+    expect(toShowdownName('tauros-paldea-combat-breed')).toBe('Tauros-Paldea-Combat');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @format
+ */
+
+import { createSeededRandom } from '../deck';
+import {
+  PreferenceProfile,
+  getGenerationAffinities,
+  getTopTypes,
+  getTypeAffinities,
+  getWeight,
+  recommendDeck,
+} from '../recommend';
+
+// IDs 1-300: all of Gen 1 and 2, and the start of Gen 3
+const IDS = Array.from({ length: 300 }, (_, i) => i + 1);
+
+describe('getTypeAffinities', () => {
+  test('gives the share of likes with each type', () => {
+    expect(getTypeAffinities([{ types: ['fire'] }, { types: ['fire', 'flying'] }])).toEqual({
+      fire: 1,
+      flying: 0.5,
+    });
+    expect(getTypeAffinities([])).toEqual({});
+  });
+});
+
+describe('getTopTypes', () => {
+  test('returns the most-liked types first', () => {
+    expect(getTopTypes({ fire: 0.5, water: 1, grass: 0.25 }, 2)).toEqual(['water', 'fire']);
+  });
+});
+
+describe('getGenerationAffinities', () => {
+  test('counts seen Pokemon that were not liked as dislikes', () => {
+    const affinities = getGenerationAffinities([1, 2], [1, 2, 3, 152, 10091]);
+    expect(affinities[1]).toBeCloseTo(3 / 5);
+    expect(affinities[2]).toBeCloseTo(1 / 3);
+    expect(affinities[3]).toBe(0.5);
+  });
+});
+
+describe('getWeight', () => {
+  const profile: PreferenceProfile = {
+    types: { fire: 1 },
+    generations: { 1: 0.8, 2: 0.2 },
+    typeMembers: { fire: new Set([4, 155]) },
+  };
+
+  test('favours liked generations and types', () => {
+    expect(getWeight(1, profile)).toBeCloseTo(0.8);
+    expect(getWeight(4, profile)).toBeCloseTo(2.4);
+    expect(getWeight(152, profile)).toBeCloseTo(0.2);
+    expect(getWeight(155, profile)).toBeCloseTo(0.6);
+  });
+
+  test('treats forms as a neutral generation', () => {
+    expect(getWeight(10091, profile)).toBe(0.5);
+  });
+});
+
+describe('recommendDeck', () => {
+  const profile: PreferenceProfile = {
+    types: {},
+    generations: { 1: 0.95, 2: 0.05, 3: 0.05 },
+    typeMembers: {},
+  };
+  const countGen1 = (ids: number[]) => ids.filter(id => id <= 151).length;
+
+  test('keeps every ID exactly once', () => {
+    const deck = recommendDeck(IDS, profile, createSeededRandom(1));
+    expect([...deck].sort((a, b) => a - b)).toEqual(IDS);
+  });
+
+  test('deals preferred generations first', () => {
+    const deck = recommendDeck(IDS, profile, createSeededRandom(1), 0);
+    expect(countGen1(deck.slice(0, 50))).toBeGreaterThanOrEqual(45);
+  });
+
+  test('still deals some Pokemon at random', () => {
+    const deck = recommendDeck(IDS, profile, createSeededRandom(1), 0.5);
+    expect(countGen1(deck.slice(0, 50))).toBeLessThan(45);
+    expect(countGen1(deck.slice(0, 50))).toBeGreaterThan(25);
+  });
+});
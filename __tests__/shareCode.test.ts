@@ -0,0 +1,54 @@
+/**
+ * @format
+ */
+
+import {
+  MAX_SHARED_IDS,
+  SHARE_LINK_PREFIX,
+  decodeShareCode,
+  encodeShareCode,
+} from '../shareCode';
+
+describe('encodeShareCode', () => {
+  test('stores sorted, de-duplicated IDs as gaps', () => {
+    expect(encodeShareCode([14, 2, 1, 2])).toBe('111C');
+  });
+});
+
+describe('decodeShareCode', () => {
+  test('round-trips IDs across the whole dex and form range', () => {
+    const ids = [1, 25, 31, 32, 33, 151, 1024, 1025, 10001, 10091, 10500];
+    expect(decodeShareCode(encodeShareCode(ids))).toEqual(ids);
+  });
+
+  test('round-trips the largest allowed collection', () => {
+    const ids = Array.from({ length: MAX_SHARED_IDS }, (_, i) => i * 5 + 1);
+    expect(decodeShareCode(encodeShareCode(ids))).toEqual(ids);
+  });
+
+  test('accepts a share link', () => {
+    expect(decodeShareCode(`  ${SHARE_LINK_PREFIX}111C\n`)).toEqual([1, 2, 14]);
+  });
+
+  test('returns null for text that is not a share code', () => {
+    expect(decodeShareCode('id,name,types\n25,pikachu,electric')).toBeNull();
+    expect(decodeShareCode('{"version":1}')).toBeNull();
+  });
+
+  test('rejects damaged, incomplete and empty codes', () => {
+    expect(() => decodeShareCode('10')).toThrow('damaged');
+    expect(() => decodeShareCode('1W')).toThrow('incomplete');
+    expect(() => decodeShareCode('1')).toThrow('empty');
+    expect(() => decodeShareCode('2111')).toThrow('newer version');
+  });
+
+  test('rejects IDs outside the dex and form range', () => {
+    expect(() => decodeShareCode(encodeShareCode([1026]))).toThrow('#1026');
+    expect(() => decodeShareCode(encodeShareCode([10501]))).toThrow('#10501');
+  });
+
+  test('rejects codes with too many Pokemon', () => {
+    const ids = Array.from({ length: MAX_SHARED_IDS + 1 }, (_, i) => i + 1);
+    expect(() => decodeShareCode(encodeShareCode(ids))).toThrow(`${MAX_SHARED_IDS}`);
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Accessibility Limits
+ *
+ * Shared limits that keep the screens usable at large system font sizes.
+ */
+
+// Largest font scale applied to compact controls (chips, counters, the
+// scoreboard) whose layout breaks past it; body text scales freely
+export const MAX_FONT_SCALE = 1.5;
@@ -0,0 +1,145 @@
+/**
+ * Swipe Deck
+ *
+ * Pure helpers for building the order Pokemon are dealt in.
+ * Nothing here touches the network or storage, so every function returns
+ * the same output for the same input (given the same random source).
+ *
+ * CONTENTS:
+ * - GENERATIONS / getGeneration: National Dex ID range of each generation
+ * - shuffle: Fisher-Yates shuffle with a pluggable random source
+ * - hashString / createSeededRandom: deterministic PRNG for the Daily 20
+ * - buildDeck: shuffled deck of unseen Pokemon and opted-in forms, narrowed by filters
+ * - buildDailyDeck: the Daily 20 deck for a date, identical on every device
+ */
+
+// Number of Pokemon in the Daily 20 deck
+export const DAILY_DECK_SIZE = 20;
+
+// Highest ID the Daily 20 draws from. Fixed rather than the fetched dex size
+// so every device, and every past date, shuffles the same range. Never change it
+export const DAILY_DEX_SIZE = 1025;
+
+// National Dex ID range of each generation
+export const GENERATIONS = [
+  { number: 1, start: 1, end: 151 },
+  { number: 2, start: 152, end: 251 },
+  { number: 3, start: 252, end: 386 },
+  { number: 4, start: 387, end: 493 },
+  { number: 5, start: 494, end: 649 },
+  { number: 6, start: 650, end: 721 },
+  { number: 7, start: 722, end: 809 },
+  { number: 8, start: 810, end: 905 },
+  { number: 9, start: 906, end: 1025 },
+];
+
+/**
+ * Finds the generation a Pokemon was introduced in
+ * IDs past the known generations count as the latest one
+ *
+ * @param id - Pokemon (species) ID
+ * @returns Generation range containing the ID
+ */
+export const getGeneration = (id: number) =>
+  GENERATIONS.find(gen => id >= gen.start && id <= gen.end) ??
+  GENERATIONS[GENERATIONS.length - 1];
+
+/**
+ * Shuffles an array in place using the Fisher-Yates algorithm
+ *
+ * @param items - Array to shuffle
+ * @param random - Random number source (defaults to Math.random)
+ * @returns The same array, shuffled
+ */
+export const shuffle = <T,>(items: T[], random: () => number = Math.random): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+/* eslint-disable no-bitwise -- hashing and PRNG work on 32-bit integers */
+/**
+ * Hashes a string to a 32-bit unsigned integer (FNV-1a)
+ * Used to turn a date into a PRNG seed
+ *
+ * @param text - String to hash
+ * @returns number - 32-bit hash
+ */
+export const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32)
+ * The same seed always produces the same sequence on every device
+ *
+ * @param seed - 32-bit integer seed
+ * @returns Function returning numbers in [0, 1), like Math.random
+ */
+export const createSeededRandom = (seed: number) => {
+  let state = seed;
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+/* eslint-enable no-bitwise */
+
+/**
+ * Gets the key of the Daily 20 deck for a moment in time
+ * Uses the UTC date so every timezone gets the same deck
+ *
+ * @param date - Moment to get the key for (defaults to now)
+ * @returns string - Date in YYYY-MM-DD format
+ */
+export const getDailyKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+/**
+ * Builds a shuffled deck of every Pokemon ID the user hasn't seen yet
+ *
+ * @param dexSize - Highest Pokemon ID to include
+ * @param seenIds - IDs of Pokemon already seen
+ * @param allowedIds - IDs matching the active filters (null = no filters)
+ * @param formIds - Alternate form IDs to deal too, already matched to the filters
+ * @param random - Random number source (defaults to Math.random)
+ * @returns Shuffled array of unseen Pokemon IDs
+ */
+export const buildDeck = (
+  dexSize: number,
+  seenIds: number[],
+  allowedIds: Set<number> | null = null,
+  formIds: number[] = [],
+  random: () => number = Math.random,
+): number[] => {
+  const seen = new Set(seenIds);
+  const ids: number[] = [];
+  for (let id = 1; id <= dexSize; id++) {
+    if (!seen.has(id) && (!allowedIds || allowedIds.has(id))) {
+      ids.push(id);
+    }
+  }
+  ids.push(...formIds.filter(id => !seen.has(id)));
+  return shuffle(ids, random);
+};
+
+/**
+ * Builds the Daily 20 deck for a date
+ * Seen Pokemon, filters and the fetched dex size are ignored so everyone
+ * gets the same cards
+ *
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @returns Array of DAILY_DECK_SIZE Pokemon IDs in a fixed order
+ */
+export const buildDailyDeck = (dateKey: string): number[] => {
+  const ids = Array.from({ length: DAILY_DEX_SIZE }, (_, i) => i + 1);
+  return shuffle(ids, createSeededRandom(hashString(dateKey))).slice(0, DAILY_DECK_SIZE);
+};
@@ -2,4 +2,8 @@
 export { default as WelcomeScreen } from './WelcomeScreen';
 export { default as SwipeScreen } from './SwipeScreen';
 export { default as LikedScreen } from './LikedScreen';
+export { default as DetailScreen } from './DetailScreen';
+export { default as QuizScreen } from './QuizScreen';
 
+export { linking } from './routes';
+export type { RootStackParamList } from './routes';
@@ -0,0 +1,392 @@
+/**
+ * PokeAPI Client
+ *
+ * Cancellable PokeAPI requests with timeouts and retries, for screens that
+ * deal or preview many Pokemon at once. Unlike services/pokeApi, every call
+ * takes an AbortSignal, so a screen can drop requests it no longer needs.
+ *
+ * Every PokeAPI request the screens make goes through fetchJson, so this is
+ * the one place an offline cache for those responses would sit.
+ * List lookups (type members, alternate forms) are kept in memory for the
+ * session.
+ *
+ * BEHAVIOUR:
+ * - Each attempt is aborted after REQUEST_TIMEOUT
+ * - Network errors, timeouts, 429 and 5xx responses are retried with
+ *   jittered exponential backoff, honouring Retry-After when sent
+ * - Other statuses (e.g. 404) fail at once
+ * - Aborting the caller's signal cancels the request in flight and any
+ *   pending retry
+ *
+ * ERRORS:
+ * - NetworkError: the request never got a response (e.g. offline)
+ * - TimeoutError: no response within REQUEST_TIMEOUT
+ * - NotFoundError: 404, never retried
+ * - RateLimitedError: 429, with the Retry-After delay if sent
+ * - PokeApiError: any other failed status
+ * - A caller abort rejects with the fetch AbortError, not a PokeApiError
+ */
+
+import { Pokemon } from '../types/pokemon';
+import { VarietyKind, getSpeciesName, getVarietyKind } from './pokemonNames';
+
+// Base URL for PokeAPI
+const API_BASE_URL = 'https://pokeapi.co/api/v2';
+// Time allowed for a single request before it is aborted
+const REQUEST_TIMEOUT = 10000;
+// Extra attempts made after a failed request
+const MAX_RETRIES = 3;
+// Backoff before the first retry; doubles with each attempt
+const RETRY_BASE_DELAY = 500;
+// Longest Retry-After delay honoured on a 429 response
+const MAX_RETRY_AFTER = 30000;
+// Page size that lists every Pokemon or species in a single request
+const LIST_LIMIT = 100000;
+
+// Entry of a PokeAPI list endpoint
+type NamedResource = { name: string; url: string };
+
+// A Pokemon or species in a list, by ID and name
+export type PokemonListEntry = {
+  id: number;
+  name: string;
+};
+
+// Species fields the screens read; checked before use like any response
+export type PokemonSpecies = {
+  flavor_text_entries?: unknown;
+};
+
+// A regional, Mega or Gigantamax form, with the species it belongs to
+export type PokemonVariety = {
+  id: number;
+  name: string;
+  kind: VarietyKind;
+  speciesId: number;
+};
+
+/**
+ * Base class of every error the client throws for a failed request
+ */
+export class PokeApiError extends Error {
+  // Whether the same request could succeed if tried again later
+  retryable: boolean;
+
+  constructor(message: string, retryable = true) {
+    super(message);
+    this.name = new.target.name;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS failure, connection reset)
+ */
+export class NetworkError extends PokeApiError {}
+
+/**
+ * No response arrived within REQUEST_TIMEOUT
+ */
+export class TimeoutError extends PokeApiError {}
+
+/**
+ * PokeAPI has nothing at this path (404)
+ */
+export class NotFoundError extends PokeApiError {
+  constructor(message: string) {
+    super(message, false);
+  }
+}
+
+/**
+ * PokeAPI is rate limiting requests (429)
+ */
+export class RateLimitedError extends PokeApiError {
+  // Delay the server asked for in ms, or null if it sent none
+  retryAfter: number | null;
+
+  constructor(message: string, retryAfter: number | null) {
+    super(message);
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Resolves after the given delay, or as soon as the signal is aborted
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Ends the wait early when aborted
+ */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+
+/**
+ * Fetches a URL, aborting the request after REQUEST_TIMEOUT
+ *
+ * @param url - URL to fetch
+ * @param signal - Also aborts the request (e.g. when the deck is replaced)
+ * @returns Promise<Response> - Response of the request
+ * @throws TimeoutError or NetworkError, or the AbortError if signal was aborted
+ */
+const fetchWithTimeout = async (url: string, signal?: AbortSignal): Promise<Response> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    abort();
+  }, REQUEST_TIMEOUT);
+  if (signal?.aborted) {
+    abort();
+  }
+  signal?.addEventListener('abort', abort);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } catch (err) {
+    if (signal?.aborted) {
+      throw err;
+    }
+    if (timedOut) {
+      throw new TimeoutError(`${url} timed out after ${REQUEST_TIMEOUT} ms`);
+    }
+    throw new NetworkError(`${url} failed: ${err instanceof Error ? err.message : err}`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+/**
+ * Reads the Retry-After header of a response as a delay
+ * Accepts both forms the header allows: seconds or an HTTP date
+ *
+ * @param response - Response to read
+ * @returns number - Delay in ms (capped at MAX_RETRY_AFTER), or null if absent
+ */
+const getRetryAfterDelay = (response: Response): number | null => {
+  const header = response.headers.get('Retry-After');
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  const ms = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+  return Number.isNaN(ms) ? null : Math.min(Math.max(ms, 0), MAX_RETRY_AFTER);
+};
+
+/**
+ * Turns a failed response into the matching error
+ * Rate limiting and server errors are retryable; other statuses are not
+ *
+ * @param response - Response with a non-OK status
+ * @param path - Requested path, for the message
+ * @returns PokeApiError - Error describing the failure
+ */
+const toResponseError = (response: Response, path: string): PokeApiError => {
+  const message = `${path} returned status ${response.status}`;
+  if (response.status === 404) {
+    return new NotFoundError(message);
+  }
+  if (response.status === 429) {
+    return new RateLimitedError(message, getRetryAfterDelay(response));
+  }
+  return new PokeApiError(message, response.status >= 500);
+};
+
+/**
+ * Fetches a PokeAPI path as JSON, retrying transient failures
+ *
+ * @param path - Path below the API base URL, e.g. "/pokemon/25"
+ * @param signal - Cancels the request in flight and stops retrying once aborted
+ * @param retries - Extra attempts after a transient failure
+ * @returns Promise - Parsed response body
+ * @throws PokeApiError subclass for the last failure, or AbortError once aborted
+ */
+const fetchJson = async <T,>(
+  path: string,
+  signal?: AbortSignal,
+  retries = MAX_RETRIES,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    let error: PokeApiError;
+    try {
+      const response = await fetchWithTimeout(`${API_BASE_URL}${path}`, signal);
+      if (response.ok) {
+        return response.json();
+      }
+      error = toResponseError(response, path);
+    } catch (err) {
+      if (!(err instanceof PokeApiError)) {
+        throw err;
+      }
+      error = err;
+    }
+
+    if (!error.retryable || attempt >= retries || signal?.aborted) {
+      throw error;
+    }
+
+    // Full jitter: wait a random time up to the exponential backoff cap
+    const retryAfter = error instanceof RateLimitedError ? error.retryAfter : null;
+    await wait(retryAfter ?? Math.random() * RETRY_BASE_DELAY * 2 ** attempt, signal);
+  }
+};
+
+/**
+ * Fetches a Pokemon by ID
+ *
+ * @param id - Pokemon ID to fetch
+ * @param signal - Cancels the request
+ * @returns Promise<Pokemon> - Pokemon data object
+ */
+export const fetchPokemon = (id: number, signal?: AbortSignal): Promise<Pokemon> =>
+  fetchJson<Pokemon>(`/pokemon/${id}`, signal);
+
+/**
+ * Fetches a Pokemon species, which holds data shared by all of its forms
+ *
+ * @param nameOrId - Species name (e.g. from a Pokemon's species field) or ID
+ * @param signal - Cancels the request
+ * @returns Promise<PokemonSpecies> - Species data
+ */
+export const fetchSpecies = (
+  nameOrId: string | number,
+  signal?: AbortSignal,
+): Promise<PokemonSpecies> => fetchJson<PokemonSpecies>(`/pokemon-species/${nameOrId}`, signal);
+
+/**
+ * Fetches the number of species in the National Dex
+ * Not retried: callers have a fallback size, and retrying would hold up
+ * the first card for the whole backoff
+ *
+ * @param signal - Cancels the request
+ * @returns Promise<number> - Species count
+ * @throws Error if the count is missing or not a positive integer
+ */
+export const fetchSpeciesCount = async (signal?: AbortSignal): Promise<number> => {
+  const data = await fetchJson<{ count: unknown }>('/pokemon-species?limit=1', signal, 0);
+  if (typeof data.count !== 'number' || !Number.isInteger(data.count) || data.count <= 0) {
+    throw new Error('PokeAPI returned an invalid species count');
+  }
+  return data.count;
+};
+
+/**
+ * Reads the ID at the end of a PokeAPI resource URL
+ *
+ * @param url - e.g. "https://pokeapi.co/api/v2/pokemon/25/"
+ * @returns number - The ID, or NaN if the URL has none
+ */
+const getResourceId = (url: string) => Number(url.match(/\/(\d+)\/?$/)?.[1]);
+
+// Type membership already fetched this session, keyed by type name
+const typeMemberCache = new Map<string, number[]>();
+
+/**
+ * Fetches the IDs of every Pokemon with the given type
+ * Includes alternate forms, so opted-in forms are matched by their own types
+ *
+ * @param type - Pokemon type name (lowercase)
+ * @param signal - Cancels the request
+ * @returns Promise<number[]> - Pokemon IDs of that type
+ */
+export const fetchTypeMemberIds = async (type: string, signal?: AbortSignal): Promise<number[]> => {
+  const cached = typeMemberCache.get(type);
+  if (cached) {
+    return cached;
+  }
+
+  const data = await fetchJson<{ pokemon: { pokemon: { url: string } }[] }>(
+    `/type/${type}`,
+    signal,
+  );
+  const ids = data.pokemon
+    .map(entry => getResourceId(entry.pokemon.url))
+    .filter(id => id > 0);
+
+  typeMemberCache.set(type, ids);
+  return ids;
+};
+
+/**
+ * Fetches a page of a PokeAPI list endpoint
+ *
+ * @param path - List path, e.g. "/pokemon"
+ * @param offset - Entries to skip
+ * @param limit - Entries to return
+ * @param signal - Cancels the request
+ * @returns Promise<PokemonListEntry[]> - Entries with a readable ID, in list order
+ */
+const fetchList = async (
+  path: string,
+  offset: number,
+  limit: number,
+  signal?: AbortSignal,
+): Promise<PokemonListEntry[]> => {
+  const data = await fetchJson<{ results: NamedResource[] }>(
+    `${path}?offset=${offset}&limit=${limit}`,
+    signal,
+  );
+  return data.results
+    .map(entry => ({ id: getResourceId(entry.url), name: entry.name }))
+    .filter(entry => entry.id > 0);
+};
+
+/**
+ * Fetches the ID and name of a range of Pokemon in National Dex order
+ *
+ * @param offset - Pokemon to skip (the first ID is offset + 1)
+ * @param limit - Pokemon to return
+ * @param signal - Cancels the request
+ * @returns Promise<PokemonListEntry[]> - Pokemon in the range
+ */
+export const fetchPokemonList = (
+  offset: number,
+  limit: number,
+  signal?: AbortSignal,
+): Promise<PokemonListEntry[]> => fetchList('/pokemon', offset, limit, signal);
+
+// Alternate forms already fetched this session
+let varietyCache: PokemonVariety[] | null = null;
+
+/**
+ * Fetches every regional, Mega and Gigantamax form
+ * Lists all Pokemon and all species in two requests, then matches each
+ * form to its species by name, so forms can be filtered by generation
+ * without fetching each species
+ *
+ * @param signal - Cancels the requests
+ * @returns Promise<PokemonVariety[]> - Forms in PokeAPI's order
+ */
+export const fetchVarieties = async (signal?: AbortSignal): Promise<PokemonVariety[]> => {
+  if (varietyCache) {
+    return varietyCache;
+  }
+
+  const [pokemonList, speciesList] = await Promise.all([
+    fetchList('/pokemon', 0, LIST_LIMIT, signal),
+    fetchList('/pokemon-species', 0, LIST_LIMIT, signal),
+  ]);
+  const speciesIds = new Map(speciesList.map(species => [species.name, species.id]));
+  const speciesNames = new Set(speciesIds.keys());
+
+  const varieties: PokemonVariety[] = [];
+  for (const { id, name } of pokemonList) {
+    const kind = getVarietyKind(name);
+    const speciesName = kind && getSpeciesName(name, speciesNames);
+    const speciesId = speciesName ? speciesIds.get(speciesName) : undefined;
+    if (kind && speciesId) {
+      varieties.push({ id, name, kind, speciesId });
+    }
+  }
+
+  varietyCache = varieties;
+  return varieties;
+};
@@ -0,0 +1,264 @@
+/**
+ * Pokemon Names
+ *
+ * Helpers for PokeAPI's hyphenated Pokemon names ("slugs") that need to
+ * know about alternate forms, which formatPokemonName does not.
+ *
+ * CONTENTS:
+ * - getVarietyKind: whether a slug is a regional, Mega or Gigantamax form
+ * - getSpeciesName: the species a form slug belongs to
+ * - formatDisplayName: form-aware display name, e.g. "Alolan Rattata"
+ * - withDisplayName: a Pokemon with its display name, for card components
+ * - toShowdownName: the species name Pokemon Showdown expects in team text
+ */
+
+import { formatPokemonName } from '../services/pokeApi';
+
+// Alternate forms that can be added to the swipe deck
+export type VarietyKind = 'regional' | 'mega' | 'gmax';
+
+// Region name in a form slug, and the adjective used in display names
+const REGIONS: Record<string, string> = {
+  alola: 'Alolan',
+  galar: 'Galarian',
+  hisui: 'Hisuian',
+  paldea: 'Paldean',
+};
+
+// Form slugs that look regional but are not (Pikachu's region caps)
+const NOT_REGIONAL = /-cap$/;
+
+// Species whose Showdown name isn't the capitalized slug
+const SHOWDOWN_SPECIES: Record<string, string> = {
+  'nidoran-f': 'Nidoran-F',
+  'nidoran-m': 'Nidoran-M',
+  farfetchd: 'Farfetch’d',
+  'mr-mime': 'Mr. Mime',
+  'ho-oh': 'Ho-Oh',
+  'mime-jr': 'Mime Jr.',
+  'porygon-z': 'Porygon-Z',
+  flabebe: 'Flabébé',
+  'type-null': 'Type: Null',
+  'jangmo-o': 'Jangmo-o',
+  'hakamo-o': 'Hakamo-o',
+  'kommo-o': 'Kommo-o',
+  'tapu-koko': 'Tapu Koko',
+  'tapu-lele': 'Tapu Lele',
+  'tapu-bulu': 'Tapu Bulu',
+  'tapu-fini': 'Tapu Fini',
+  sirfetchd: 'Sirfetch’d',
+  'mr-rime': 'Mr. Rime',
+  'great-tusk': 'Great Tusk',
+  'scream-tail': 'Scream Tail',
+  'brute-bonnet': 'Brute Bonnet',
+  'flutter-mane': 'Flutter Mane',
+  'slither-wing': 'Slither Wing',
+  'sandy-shocks': 'Sandy Shocks',
+  'iron-treads': 'Iron Treads',
+  'iron-bundle': 'Iron Bundle',
+  'iron-hands': 'Iron Hands',
+  'iron-jugulis': 'Iron Jugulis',
+  'iron-moth': 'Iron Moth',
+  'iron-thorns': 'Iron Thorns',
+  'wo-chien': 'Wo-Chien',
+  'chien-pao': 'Chien-Pao',
+  'ting-lu': 'Ting-Lu',
+  'chi-yu': 'Chi-Yu',
+  'roaring-moon': 'Roaring Moon',
+  'iron-valiant': 'Iron Valiant',
+  'walking-wake': 'Walking Wake',
+  'iron-leaves': 'Iron Leaves',
+  'gouging-fire': 'Gouging Fire',
+  'raging-bolt': 'Raging Bolt',
+  'iron-boulder': 'Iron Boulder',
+  'iron-crown': 'Iron Crown',
+};
+
+// PokeAPI names of species' default forms; Showdown uses the bare species
+const DEFAULT_FORMS = [
+  'deoxys-normal',
+  'wormadam-plant',
+  'giratina-altered',
+  'shaymin-land',
+  'basculin-red-striped',
+  'darmanitan-standard',
+  'tornadus-incarnate',
+  'thundurus-incarnate',
+  'landorus-incarnate',
+  'keldeo-ordinary',
+  'meloetta-aria',
+  'meowstic-male',
+  'aegislash-shield',
+  'pumpkaboo-average',
+  'gourgeist-average',
+  'zygarde-50',
+  'oricorio-baile',
+  'lycanroc-midday',
+  'wishiwashi-solo',
+  'minior-red-meteor',
+  'mimikyu-disguised',
+  'toxtricity-amped',
+  'eiscue-ice',
+  'indeedee-male',
+  'morpeko-full-belly',
+  'urshifu-single-strike',
+  'enamorus-incarnate',
+  'basculegion-male',
+  'oinkologne-male',
+  'maushold-family-of-four',
+  'squawkabilly-green-plumage',
+  'palafin-zero',
+  'tatsugiri-curly',
+  'dudunsparce-two-segment',
+];
+
+// Forms whose Showdown name doesn't follow "Species-Form"
+const SHOWDOWN_FORMS: Record<string, string> = {
+  'darmanitan-galar-standard': 'Darmanitan-Galar',
+  'tauros-paldea-combat-breed': 'Tauros-Paldea-Combat',
+  'tauros-paldea-blaze-breed': 'Tauros-Paldea-Blaze',
+  'tauros-paldea-aqua-breed': 'Tauros-Paldea-Aqua',
+  'meowstic-female': 'Meowstic-F',
+  'indeedee-female': 'Indeedee-F',
+  'basculegion-female': 'Basculegion-F',
+  'oinkologne-female': 'Oinkologne-F',
+};
+
+/**
+ * Splits a slug into its words
+ *
+ * @param name - Pokemon slug, e.g. "charizard-mega-x"
+ * @returns string[] - e.g. ["charizard", "mega", "x"]
+ */
+const toWords = (name: string) => name.split('-');
+
+/**
+ * Capitalizes the first letter of a word
+ */
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Finds which kind of alternate form a slug names, if any
+ *
+ * @param name - Pokemon slug
+ * @returns VarietyKind - or null for a species' default form and other forms
+ *
+ * @example
+ * getVarietyKind('rattata-alola') // 'regional'
+ * getVarietyKind('charizard-mega-x') // 'mega'
+ * getVarietyKind('pikachu-gmax') // 'gmax'
+ * getVarietyKind('giratina-origin') // null
+ */
+export const getVarietyKind = (name: string): VarietyKind | null => {
+  const words = toWords(name);
+  if (words[words.length - 1] === 'gmax') {
+    return 'gmax';
+  }
+  if (words.includes('mega') && words.indexOf('mega') > 0) {
+    return 'mega';
+  }
+  if (words.slice(1).some(word => word in REGIONS) && !NOT_REGIONAL.test(name)) {
+    return 'regional';
+  }
+  return null;
+};
+
+/**
+ * Finds the species a form belongs to
+ * Drops words from the end of the slug until it names a known species, so
+ * "urshifu-single-strike-gmax" and "mr-mime-galar" both resolve
+ *
+ * @param name - Pokemon slug
+ * @param speciesNames - Slugs of every species
+ * @returns string - Species slug, or null if none matches
+ */
+export const getSpeciesName = (name: string, speciesNames: Set<string>): string | null => {
+  const words = toWords(name);
+  for (let end = words.length; end > 0; end--) {
+    const candidate = words.slice(0, end).join('-');
+    if (speciesNames.has(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Formats a Pokemon name for display, naming alternate forms the way the
+ * games do; anything else is formatted by formatPokemonName
+ *
+ * @param name - Pokemon slug
+ * @returns string - Display name
+ *
+ * @example
+ * formatDisplayName('rattata-alola') // "Alolan Rattata"
+ * formatDisplayName('charizard-mega-x') // "Mega Charizard X"
+ * formatDisplayName('pikachu-gmax') // "Gigantamax Pikachu"
+ * formatDisplayName('pikachu') // "Pikachu"
+ */
+export const formatDisplayName = (name: string): string => {
+  const kind = getVarietyKind(name);
+  if (!kind) {
+    return formatPokemonName(name);
+  }
+
+  const words = toWords(name);
+  let prefix: string;
+  if (kind === 'gmax') {
+    prefix = 'Gigantamax';
+    words.pop();
+  } else if (kind === 'mega') {
+    prefix = 'Mega';
+    words.splice(words.indexOf('mega'), 1);
+  } else {
+    const index = words.findIndex((word, i) => i > 0 && word in REGIONS);
+    prefix = REGIONS[words[index]];
+    words.splice(index, 1);
+  }
+  return [prefix, ...words.map(capitalize)].join(' ');
+};
+
+/**
+ * Copies a Pokemon with its display name in place of the slug, for card
+ * components that format the name themselves with formatPokemonName
+ * Pokemon that aren't alternate forms are returned unchanged
+ *
+ * @param pokemon - Pokemon (or liked Pokemon) to show
+ * @returns Same shape, with e.g. "Alolan Rattata" as the name
+ */
+export const withDisplayName = <T extends { name: string }>(pokemon: T): T =>
+  getVarietyKind(pokemon.name) ? { ...pokemon, name: formatDisplayName(pokemon.name) } : pokemon;
+
+/**
+ * Converts a Pokemon slug to the species name Pokemon Showdown expects
+ * Default forms lose their suffix ("giratina-altered" is just Giratina);
+ * other forms become "Species-Form" as Showdown writes them
+ *
+ * @param name - Pokemon slug
+ * @returns string - Showdown species name
+ *
+ * @example
+ * toShowdownName('giratina-altered') // "Giratina"
+ * toShowdownName('mr-mime') // "Mr. Mime"
+ * toShowdownName('rattata-alola') // "Rattata-Alola"
+ * toShowdownName('urshifu-single-strike-gmax') // "Urshifu-Gmax"
+ */
+export const toShowdownName = (name: string): string => {
+  if (SHOWDOWN_FORMS[name]) {
+    return SHOWDOWN_FORMS[name];
+  }
+
+  // Drop the default form's suffix, keeping anything after it (e.g. "-gmax")
+  let slug = name;
+  const defaultForm = DEFAULT_FORMS.find(form => slug === form || slug.startsWith(`${form}-`));
+  if (defaultForm) {
+    slug = toWords(defaultForm)[0] + slug.slice(defaultForm.length);
+  }
+
+  const species =
+    Object.keys(SHOWDOWN_SPECIES).find(key => slug === key || slug.startsWith(`${key}-`)) ??
+    toWords(slug)[0];
+  const speciesName = SHOWDOWN_SPECIES[species] ?? capitalize(species);
+  const form = slug.slice(species.length + 1);
+  return form ? [speciesName, ...toWords(form).map(capitalize)].join('-') : speciesName;
+};
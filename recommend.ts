@@ -0,0 +1,155 @@
+/**
+ * Recommendations
+ *
+ * Pure helpers for the "For you" deal order, which favours the types and
+ * generations the user likes. Nothing here touches the network or storage,
+ * so every function returns the same output for the same input (given the
+ * same random source).
+ *
+ * Likes carry their types, so type affinity comes from likes alone.
+ * Dislikes are only known as seen IDs that weren't liked, which is enough
+ * to compare generations.
+ *
+ * CONTENTS:
+ * - getTypeAffinities / getTopTypes: how often each type appears in likes
+ * - getGenerationAffinities: like rate of each generation
+ * - getWeight: how strongly one Pokemon is recommended
+ * - recommendDeck: orders a deck by weight, dealing a share of it at random
+ */
+
+import { GENERATIONS, shuffle } from './deck';
+
+// Share of cards dealt at random instead of by preference, so the deck keeps variety
+export const EXPLORATION_RATE = 0.2;
+// Number of most-liked types whose members are looked up for weighting
+export const TOP_TYPE_COUNT = 3;
+// How much a fully liked type adds to a Pokemon's weight (1 = its generation's share)
+const TYPE_WEIGHT = 2;
+// Affinity of a generation with no swipes yet, and of forms, which have no generation here
+const NEUTRAL_AFFINITY = 0.5;
+
+// What the user's swipes say about their taste
+export type PreferenceProfile = {
+  types: Record<string, number>;             // Share of likes with each type, 0 to 1
+  generations: Record<number, number>;       // Like rate of each generation, 0 to 1
+  typeMembers: Record<string, Set<number>>;  // IDs of the Pokemon with each weighted type
+};
+
+/**
+ * Works out how often each type appears among liked Pokemon
+ *
+ * @param liked - Liked Pokemon (only their types are read)
+ * @returns Share of liked Pokemon having each type; types never liked are absent
+ *
+ * @example
+ * getTypeAffinities([{ types: ['fire'] }, { types: ['fire', 'flying'] }])
+ * // { fire: 1, flying: 0.5 }
+ */
+export const getTypeAffinities = (liked: { types: string[] }[]): Record<string, number> => {
+  const affinities: Record<string, number> = {};
+  for (const pokemon of liked) {
+    for (const type of pokemon.types) {
+      affinities[type] = (affinities[type] ?? 0) + 1 / liked.length;
+    }
+  }
+  return affinities;
+};
+
+/**
+ * Picks the types with the highest affinity
+ *
+ * @param affinities - Type affinities from getTypeAffinities
+ * @param count - Number of types to return
+ * @returns Type names, highest affinity first
+ */
+export const getTopTypes = (affinities: Record<string, number>, count: number): string[] =>
+  Object.keys(affinities)
+    .sort((a, b) => affinities[b] - affinities[a])
+    .slice(0, count);
+
+/**
+ * Finds the generation of a dex ID
+ * Unlike getGeneration, forms and other IDs past the dex have none
+ */
+const findGeneration = (id: number) =>
+  GENERATIONS.find(gen => id >= gen.start && id <= gen.end);
+
+/**
+ * Works out how much the user likes each generation
+ * Uses the like rate with one like and one dislike added to every
+ * generation, so a single swipe can't rule a generation in or out
+ *
+ * @param likedIds - IDs of liked Pokemon
+ * @param seenIds - IDs of every Pokemon swiped; those not liked count as dislikes
+ * @returns Affinity of every generation, 0 to 1 (NEUTRAL_AFFINITY with no swipes)
+ */
+export const getGenerationAffinities = (
+  likedIds: number[],
+  seenIds: number[],
+): Record<number, number> => {
+  const liked = new Set(likedIds);
+  const disliked = new Set(seenIds.filter(id => !liked.has(id)));
+
+  const affinities: Record<number, number> = {};
+  for (const gen of GENERATIONS) {
+    const inGen = (id: number) => findGeneration(id) === gen;
+    const likes = [...liked].filter(inGen).length;
+    const dislikes = [...disliked].filter(inGen).length;
+    affinities[gen.number] = (likes + 1) / (likes + dislikes + 2);
+  }
+  return affinities;
+};
+
+/**
+ * Works out how strongly a Pokemon is recommended
+ * Its generation's affinity, raised for each weighted type it has
+ *
+ * @param id - Pokemon ID
+ * @param profile - The user's preferences
+ * @returns number - Weight, always above 0 (higher = dealt sooner)
+ */
+export const getWeight = (id: number, profile: PreferenceProfile): number => {
+  const gen = findGeneration(id);
+  const genAffinity = gen ? profile.generations[gen.number] ?? NEUTRAL_AFFINITY : NEUTRAL_AFFINITY;
+  const typeAffinity = Object.keys(profile.typeMembers)
+    .filter(type => profile.typeMembers[type].has(id))
+    .reduce((sum, type) => sum + (profile.types[type] ?? 0), 0);
+  return genAffinity * (1 + TYPE_WEIGHT * typeAffinity);
+};
+
+/**
+ * Orders a deck so the Pokemon the user is likely to enjoy come first
+ * Each card is taken from a weighted shuffle (higher weights tend to come
+ * sooner), or with probability explorationRate from a plain shuffle, so
+ * unfavoured Pokemon still turn up now and then
+ *
+ * @param ids - Pokemon IDs to deal, each listed once
+ * @param profile - The user's preferences
+ * @param random - Random number source (defaults to Math.random)
+ * @param explorationRate - Share of cards dealt at random (0 to 1)
+ * @returns New array holding the same IDs in recommended order
+ */
+export const recommendDeck = (
+  ids: number[],
+  profile: PreferenceProfile,
+  random: () => number = Math.random,
+  explorationRate: number = EXPLORATION_RATE,
+): number[] => {
+  // Weighted shuffle (Efraimidis-Spirakis): sort by random^(1/weight), largest first
+  const weighted = ids
+    .map(id => ({ id, key: Math.pow(random(), 1 / getWeight(id, profile)) }))
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.id);
+  const explored = shuffle([...ids], random);
+
+  // Either list runs out only once every ID has been dealt from it
+  const dealt = new Set<number>();
+  let weightedIndex = 0;
+  let exploredIndex = 0;
+  while (dealt.size < ids.length) {
+    const id =
+      random() < explorationRate ? explored[exploredIndex++] : weighted[weightedIndex++];
+    dealt.add(id);
+  }
+  return [...dealt];
+};
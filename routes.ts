@@ -0,0 +1,47 @@
+/**
+ * Navigation route definitions
+ *
+ * The param list used by the navigation and route props of the screens in
+ * this folder, and the pokeswipe:// deep link paths of those routes.
+ * Each key is a route name; its value is the params that route takes.
+ *
+ * NOTE: AppNavigator still declares its own param list, and App doesn't
+ * pass `linking` to NavigationContainer yet. Both should import from here;
+ * until then, keep the routes below in step with the ones AppNavigator
+ * registers.
+ */
+
+import { LinkingOptions } from '@react-navigation/native';
+
+export type RootStackParamList = {
+  Welcome: undefined;
+  Swipe: undefined;
+  Liked:
+    | {
+        importCode?: string;  // Share code to preview for import
+        pokemonId?: number;   // Pokemon whose details to show
+      }
+    | undefined;
+};
+
+/**
+ * Deep links for NavigationContainer's linking prop
+ * - pokeswipe://swipe opens the swipe deck
+ * - pokeswipe://liked opens the collection
+ * - pokeswipe://liked/<share code> opens the collection with an import preview
+ * - pokeswipe://pokemon/<id> opens the collection with that Pokemon's details
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: ['pokeswipe://'],
+  config: {
+    screens: {
+      Welcome: '',
+      Swipe: 'swipe',
+      Liked: {
+        path: 'liked/:importCode?',
+        alias: ['pokemon/:pokemonId'],
+        parse: { pokemonId: Number },
+      },
+    },
+  },
+};
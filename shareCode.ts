@@ -0,0 +1,106 @@
+/**
+ * Share Codes
+ *
+ * Compact, URL-safe encoding of a set of Pokemon IDs, so a liked
+ * collection can be pasted into someone else's Import panel.
+ *
+ * FORMAT:
+ * - A version character, then each ID as the gap from the previous one
+ *   (IDs sorted), five bits per character, low bits first
+ * - Decoding accepts the bare code or a pokeswipe://liked/ link
+ * - Decoding rejects IDs outside the dex and known form range, and codes
+ *   of more than MAX_SHARED_IDS Pokemon, before anything is fetched
+ */
+
+// Leading character of share codes, changed if the encoding ever changes
+const SHARE_CODE_VERSION = '1';
+// URL-safe digits; values 0-31 end a number, 32-63 carry 5 bits and continue it
+const SHARE_CODE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+// Deep link form of a share code (the "liked/:importCode" path in routes.ts),
+// accepted on import. Exports use the bare code until App opens these links
+export const SHARE_LINK_PREFIX = 'pokeswipe://liked/';
+// Most Pokemon a single share code may carry
+export const MAX_SHARED_IDS = 200;
+// Highest National Dex number a share code may contain
+const MAX_DEX_ID = 1025;
+// Alternate forms (regional, Mega, Gigantamax) have IDs from here on
+const FIRST_FORM_ID = 10001;
+// Highest form ID a share code may contain, with room for forms added later
+const MAX_FORM_ID = 10500;
+
+/**
+ * Encodes a set of Pokemon IDs as a short, URL-safe share code
+ * IDs are sorted and stored as gaps from the previous ID, so a typical
+ * collection needs one or two characters per Pokemon
+ * 
+ * @param ids - Pokemon IDs to encode
+ * @returns string - Share code, e.g. "111C" for IDs 1, 2 and 14
+ */
+export const encodeShareCode = (ids: number[]): string => {
+  const sorted = Array.from(new Set(ids)).sort((a, b) => a - b);
+  let code = SHARE_CODE_VERSION;
+  let previous = 0;
+  for (const id of sorted) {
+    let gap = id - previous;
+    previous = id;
+    // Low 5 bits first, each followed by more until the gap fits
+    while (gap >= 32) {
+      code += SHARE_CODE_ALPHABET[32 + (gap % 32)];
+      gap = Math.floor(gap / 32);
+    }
+    code += SHARE_CODE_ALPHABET[gap];
+  }
+  return code;
+};
+
+/**
+ * Reads the Pokemon IDs from a share code or share link
+ * 
+ * @param text - Pasted text or deep link parameter
+ * @returns number[] - Decoded IDs, or null if the text is not a share code
+ * @throws Error if the text looks like a share code but is damaged
+ */
+export const decodeShareCode = (text: string): number[] | null => {
+  const trimmed = text.trim();
+  const code = trimmed.startsWith(SHARE_LINK_PREFIX)
+    ? trimmed.slice(SHARE_LINK_PREFIX.length)
+    : trimmed;
+  if (!/^[0-9A-Za-z_-]+$/.test(code)) return null;
+  if (!code.startsWith(SHARE_CODE_VERSION)) {
+    throw new Error('This share code is from a newer version of PokeSwipe.');
+  }
+
+  const ids: number[] = [];
+  let previous = 0;
+  let gap = 0;
+  let scale = 1;
+  for (const char of code.slice(SHARE_CODE_VERSION.length)) {
+    const value = SHARE_CODE_ALPHABET.indexOf(char);
+    if (value >= 32) {
+      gap += (value - 32) * scale;
+      scale *= 32;
+      continue;
+    }
+    gap += value * scale;
+    if (gap === 0) {
+      throw new Error('The share code is damaged.');
+    }
+    previous += gap;
+    if (previous > MAX_DEX_ID && (previous < FIRST_FORM_ID || previous > MAX_FORM_ID)) {
+      throw new Error(`The share code contains an unknown Pokémon (#${previous}).`);
+    }
+    ids.push(previous);
+    if (ids.length > MAX_SHARED_IDS) {
+      throw new Error(`A share code can hold at most ${MAX_SHARED_IDS} Pokémon.`);
+    }
+    gap = 0;
+    scale = 1;
+  }
+  if (scale !== 1) {
+    throw new Error('The share code is incomplete.');
+  }
+  if (ids.length === 0) {
+    throw new Error('The share code is empty.');
+  }
+  return ids;
+};
@@ -0,0 +1,40 @@
+/**
+ * Screen Storage
+ *
+ * JSON helpers for state that a single screen keeps in AsyncStorage.
+ * Keys use the same "@PokeSwipe:" namespace as PokemonContext.
+ * Failures are logged rather than thrown, so a storage error never stops
+ * a screen from working; it only loses what would have been saved.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Reads a JSON value saved with saveStored
+ *
+ * @param key - AsyncStorage key
+ * @returns Promise - Saved value, or null if missing or unreadable
+ */
+export const loadStored = async <T,>(key: string): Promise<T | null> => {
+  try {
+    const json = await AsyncStorage.getItem(key);
+    return json ? JSON.parse(json) : null;
+  } catch (err) {
+    console.error(`Error loading ${key}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Saves a value to AsyncStorage as JSON
+ *
+ * @param key - AsyncStorage key
+ * @param value - Value to save
+ */
+export const saveStored = async (key: string, value: unknown) => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Error saving ${key}:`, err);
+  }
+};